@@ -0,0 +1,121 @@
+// public/embed.js
+// 学校のサイトなどに SenpaiChat を埋め込むためのスクリプト
+//
+//   <script src="https://chat.example.ac.jp/embed.js" data-backend="admissions" data-theme="dark" async></script>
+//
+// ページの右下 (data-position="left" で左下) にボタンを置き、押すと /embed を iframe で開く。
+// 埋め込めるのは SenpaiChat 側の EMBED_ALLOWED_ORIGINS に含まれるサイトだけ。
+(function () {
+    'use strict';
+
+    var script = document.currentScript;
+    if (!script || window.SenpaiChatWidget) return;
+
+    var widgetOrigin = new URL(script.src).origin;
+    var data = script.dataset;
+    var theme = data.theme === 'dark' ? 'dark' : 'light';
+    var position = data.position === 'left' ? 'left' : 'right';
+    var locale = data.locale || (document.documentElement.lang || navigator.language || '').slice(0, 2);
+    var labels = locale === 'en'
+        ? { open: 'Ask SenpaiChat', close: 'Close SenpaiChat' }
+        : { open: 'SenpaiChat に質問する', close: 'SenpaiChat を閉じる' };
+    var colors = theme === 'dark'
+        ? { background: '#000', foreground: '#fff' }
+        : { background: '#fff', foreground: '#000' };
+
+    var launcher = document.createElement('button');
+    launcher.type = 'button';
+    launcher.setAttribute('aria-label', labels.open);
+    launcher.setAttribute('aria-expanded', 'false');
+    launcher.innerHTML = '<svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>';
+    Object.assign(launcher.style, {
+        position: 'fixed',
+        bottom: '20px',
+        width: '56px',
+        height: '56px',
+        border: theme === 'dark' ? 'none' : '1px solid #e5e7eb',
+        borderRadius: '9999px',
+        background: colors.background,
+        color: colors.foreground,
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.2)',
+        cursor: 'pointer',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: '2147483000',
+    });
+    launcher.style[position] = '20px';
+
+    var frame = null;
+
+    // iframe は初めて開いたときに作る (ボタンを置くだけのページで読み込みを増やさない)
+    var createFrame = function () {
+        var params = new URLSearchParams({ origin: window.location.origin, theme: theme });
+        if (data.backend) params.set('backend', data.backend);
+        if (data.question) params.set('question', data.question);
+        if (data.locale) params.set('locale', data.locale);
+
+        var iframe = document.createElement('iframe');
+        iframe.src = widgetOrigin + '/embed?' + params.toString();
+        iframe.title = 'SenpaiChat';
+        iframe.setAttribute('allow', 'clipboard-write');
+        Object.assign(iframe.style, {
+            position: 'fixed',
+            bottom: '88px',
+            width: 'min(400px, calc(100vw - 40px))',
+            height: 'min(640px, calc(100vh - 108px))',
+            border: 'none',
+            borderRadius: '16px',
+            background: '#fff',
+            boxShadow: '0 8px 24px rgba(0, 0, 0, 0.2)',
+            display: 'none',
+            zIndex: '2147483000',
+        });
+        iframe.style[position] = '20px';
+        document.body.appendChild(iframe);
+        return iframe;
+    };
+
+    var isOpen = function () {
+        return frame !== null && frame.style.display !== 'none';
+    };
+
+    var open = function () {
+        if (!frame) frame = createFrame();
+        frame.style.display = 'block';
+        launcher.setAttribute('aria-expanded', 'true');
+        launcher.setAttribute('aria-label', labels.close);
+    };
+
+    var close = function () {
+        if (!frame) return;
+        frame.style.display = 'none';
+        launcher.setAttribute('aria-expanded', 'false');
+        launcher.setAttribute('aria-label', labels.open);
+        launcher.focus();
+    };
+
+    var toggle = function () {
+        if (isOpen()) close();
+        else open();
+    };
+
+    launcher.addEventListener('click', toggle);
+
+    // チャットからのイベントを senpaichat:<type> としてページに知らせる (質問や回答の本文は含まれない)
+    window.addEventListener('message', function (event) {
+        if (event.origin !== widgetOrigin || !frame || event.source !== frame.contentWindow) return;
+        var message = event.data;
+        if (!message || message.source !== 'senpaichat' || typeof message.type !== 'string') return;
+        if (message.type === 'close') close();
+        window.dispatchEvent(new CustomEvent('senpaichat:' + message.type, { detail: message }));
+    });
+
+    var mount = function () {
+        document.body.appendChild(launcher);
+    };
+    if (document.body) mount();
+    else document.addEventListener('DOMContentLoaded', mount);
+
+    window.SenpaiChatWidget = { open: open, close: close, toggle: toggle };
+})();
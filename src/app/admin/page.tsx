@@ -0,0 +1,233 @@
+// app/admin/page.tsx
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { cookies, headers } from 'next/headers';
+import { BarChart3 } from 'lucide-react';
+import { getAdminCredentials } from '@/lib/adminAuth';
+import { getAnalyticsStore } from '@/lib/analyticsStore';
+import { groupSimilarQuestions, isUnanswered, summarizeByDay, summarizeUsage, type LatencyPercentiles } from '@/lib/analyticsReport';
+import { getFeedbackStore } from '@/lib/feedbackStore';
+import { formatMessage, getMessages, LOCALE_COOKIE, resolveLocale, toDateLocale } from '@/lib/i18n';
+import type { Messages } from '@/locales/ja';
+import type { FeedbackReason } from '@/types/feedback';
+
+export const metadata: Metadata = {
+    title: 'SenpaiChat admin',
+    robots: { index: false },
+};
+
+// 選べる集計期間 (日)
+const PERIODS = [7, 30, 90];
+
+// 日ごとの集計に使うタイムゾーン
+const timeZone = process.env.ADMIN_TIMEZONE || 'Asia/Tokyo';
+
+const formatMs = (ms?: number) => {
+    if (ms === undefined) return '-';
+    return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+};
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const Stat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+    <div className="p-4 rounded-xl border border-gray-200 bg-white">
+        <p className="text-xs text-gray-500">{label}</p>
+        <p className="mt-1 text-2xl font-semibold text-gray-900">{value}</p>
+        {detail && <p className="mt-1 text-xs text-gray-500">{detail}</p>}
+    </div>
+);
+
+const latencyDetail = ({ p50, p90, p99 }: LatencyPercentiles) =>
+    `p50 ${formatMs(p50)} / p90 ${formatMs(p90)} / p99 ${formatMs(p99)}`;
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="mt-10">
+        <h2 className="mb-3 text-lg font-semibold text-gray-900">{title}</h2>
+        {children}
+    </section>
+);
+
+interface QuestionRow {
+    key: string;
+    question: string;
+    count: number;
+    similar: string[]; // 同じグループのほかの表記
+    detail?: string;
+}
+
+const QuestionList: React.FC<{ rows: QuestionRow[]; t: Messages }> = ({ rows, t }) => {
+    if (rows.length === 0) return <p className="text-sm text-gray-500">{t.admin.empty}</p>;
+    return (
+        <ol className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+            {rows.map((row) => (
+                <li key={row.key} className="px-4 py-3 flex items-start gap-4">
+                    <span className="w-10 flex-shrink-0 text-right font-semibold text-gray-900" title={t.admin.count}>{row.count}</span>
+                    <div className="min-w-0">
+                        <p className="text-sm text-gray-900 break-words">{row.question}</p>
+                        {row.similar.length > 0 && (
+                            <p className="mt-1 text-xs text-gray-500 break-words">{t.admin.similar}: {row.similar.join(' / ')}</p>
+                        )}
+                        {row.detail && <p className="mt-1 text-xs text-gray-500">{row.detail}</p>}
+                    </div>
+                </li>
+            ))}
+        </ol>
+    );
+};
+
+// グループの代表以外の表記 (最大 3 件)
+const similarQuestions = (representative: string, queries: string[]) =>
+    Array.from(new Set(queries)).filter((query) => query !== representative).slice(0, 3);
+
+// 利用状況・フィードバックの集計画面 (ミドルウェアで Basic 認証をかけている)
+export default async function AdminPage({ searchParams }: { searchParams: Promise<{ days?: string }> }) {
+    if (!getAdminCredentials()) notFound();
+
+    const locale = resolveLocale(
+        (await cookies()).get(LOCALE_COOKIE)?.value,
+        (await headers()).get('accept-language'),
+    );
+    const t = getMessages(locale);
+    const requestedDays = Number((await searchParams).days);
+    const days = PERIODS.includes(requestedDays) ? requestedDays : PERIODS[0];
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [events, feedback] = await Promise.all([
+        getAnalyticsStore().list(since),
+        getFeedbackStore().list({ rating: 'down', since }),
+    ]);
+    const summary = summarizeUsage(events);
+    const daily = summarizeByDay(events, days, timeZone);
+    const maxDailyQueries = Math.max(1, ...daily.map((day) => day.queries));
+
+    const topQuestions = groupSimilarQuestions(events.filter((event) => event.query), (event) => event.query ?? '');
+    const unanswered = groupSimilarQuestions(events.filter(isUnanswered), (event) => event.query ?? '');
+    const negative = groupSimilarQuestions(feedback.filter((record) => record.query), (record) => record.query);
+
+    const reasonSummary = (reasons: (FeedbackReason | undefined)[]) => {
+        const counts = new Map<FeedbackReason, number>();
+        for (const reason of reasons) if (reason) counts.set(reason, (counts.get(reason) ?? 0) + 1);
+        const text = Array.from(counts, ([reason, count]) => `${t.feedback.reasons[reason]} (${count})`).join(', ');
+        return text ? `${t.admin.reasons}: ${text}` : undefined;
+    };
+
+    return (
+        <main className="min-h-screen bg-gray-50">
+            <div className="max-w-5xl mx-auto px-6 py-8">
+                <h1 className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+                    <BarChart3 size={24} />
+                    {t.admin.title}
+                </h1>
+                <p className="mt-2 text-sm text-gray-600">{t.admin.description}</p>
+
+                <nav className="mt-6 flex items-center gap-2 text-sm" aria-label={t.admin.period}>
+                    <span className="text-gray-500">{t.admin.period}:</span>
+                    {PERIODS.map((period) => (
+                        <Link
+                            key={period}
+                            href={`/admin?days=${period}`}
+                            className={`px-3 py-1 rounded-full border ${period === days ? 'bg-black text-white border-black' : 'bg-white text-gray-700 border-gray-200 hover:border-gray-400'}`}
+                            aria-current={period === days ? 'page' : undefined}
+                        >
+                            {formatMessage(t.admin.lastDays, { days: period })}
+                        </Link>
+                    ))}
+                </nav>
+
+                {!process.env.ANALYTICS_INGEST_TOKEN && (
+                    <p className="mt-6 px-4 py-3 rounded-xl bg-amber-50 border border-amber-200 text-sm text-amber-800" role="status">
+                        {t.admin.analyticsDisabled}
+                    </p>
+                )}
+
+                <div className="mt-6 grid grid-cols-2 md:grid-cols-3 gap-3">
+                    <Stat label={t.admin.queries} value={summary.queries.toLocaleString(toDateLocale(locale))} />
+                    <Stat label={t.admin.errorRate} value={formatPercent(summary.errorRate)} detail={`${t.admin.errors}: ${summary.errors}`} />
+                    <Stat label={t.admin.rejected} value={String(summary.rejected)} />
+                    <Stat label={t.admin.cacheHits} value={String(summary.cacheHits)} />
+                    <Stat label={t.admin.ttfb} value={formatMs(summary.ttfb.p50)} detail={latencyDetail(summary.ttfb)} />
+                    <Stat label={t.admin.duration} value={formatMs(summary.duration.p50)} detail={latencyDetail(summary.duration)} />
+                </div>
+
+                <Section title={t.admin.daily}>
+                    <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white">
+                        <table className="w-full text-sm">
+                            <thead className="text-left text-xs text-gray-500">
+                                <tr>
+                                    <th className="px-4 py-2 font-medium">{t.admin.date}</th>
+                                    <th className="px-4 py-2 font-medium">{t.admin.queries}</th>
+                                    <th className="px-4 py-2 font-medium">{t.admin.errorRate}</th>
+                                    <th className="px-4 py-2 font-medium">{t.admin.ttfb} (p50)</th>
+                                    <th className="px-4 py-2 font-medium">{t.admin.duration} (p90)</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {daily.map((day) => (
+                                    <tr key={day.date}>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{day.date}</td>
+                                        <td className="px-4 py-2">
+                                            <div className="flex items-center gap-2">
+                                                <span className="w-10 text-right text-gray-900">{day.queries}</span>
+                                                <span
+                                                    className="h-2 rounded-full bg-gray-800"
+                                                    style={{ width: `${(day.queries / maxDailyQueries) * 160}px` }}
+                                                    aria-hidden="true"
+                                                />
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-2 text-gray-700">{day.queries > 0 ? formatPercent(day.errorRate) : '-'}</td>
+                                        <td className="px-4 py-2 text-gray-700">{formatMs(day.ttfb.p50)}</td>
+                                        <td className="px-4 py-2 text-gray-700">{formatMs(day.duration.p90)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </Section>
+
+                <Section title={t.admin.topQuestions}>
+                    <QuestionList
+                        t={t}
+                        rows={topQuestions.map((group) => ({
+                            key: group.representative,
+                            question: group.representative,
+                            count: group.count,
+                            similar: similarQuestions(group.representative, group.items.map((event) => event.query ?? '')),
+                        }))}
+                    />
+                </Section>
+
+                <Section title={t.admin.unanswered}>
+                    <QuestionList
+                        t={t}
+                        rows={unanswered.map((group) => ({
+                            key: group.representative,
+                            question: group.representative,
+                            count: group.count,
+                            similar: similarQuestions(group.representative, group.items.map((event) => event.query ?? '')),
+                            detail: Array.from(new Set(group.items.map((event) => event.code ?? String(event.status)))).join(', '),
+                        }))}
+                    />
+                </Section>
+
+                <Section title={t.admin.negative}>
+                    <QuestionList
+                        t={t}
+                        rows={negative.map((group) => ({
+                            key: group.representative,
+                            question: group.representative,
+                            count: group.count,
+                            similar: similarQuestions(group.representative, group.items.map((record) => record.query)),
+                            detail: reasonSummary(group.items.map((record) => record.reason)),
+                        }))}
+                    />
+                </Section>
+            </div>
+        </main>
+    );
+}
+
+// ローカルファイルから読むため Node.js ランタイムで実行する
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,49 @@
+// app/api/analytics/route.ts
+import { type NextRequest } from 'next/server';
+import { validateAnalyticsEvent } from '@/lib/analytics';
+import { getAnalyticsStore } from '@/lib/analyticsStore';
+import { jsonResponse } from '@/lib/http';
+import { JsonlFileFullError } from '@/lib/jsonlFile';
+import { logger } from '@/lib/logger';
+
+// /api/generate と共有するトークン (未設定の場合は利用状況を記録しない)
+const ingestToken = process.env.ANALYTICS_INGEST_TOKEN;
+
+/**
+ * /api/generate から送られた利用状況の記録を保存する (管理画面の集計に使う)
+ * Authorization: Bearer <ANALYTICS_INGEST_TOKEN>
+ */
+export async function POST(request: NextRequest) {
+    if (!ingestToken) {
+        return jsonResponse({ error: 'Analytics is disabled.' }, 404);
+    }
+    if (request.headers.get('authorization') !== `Bearer ${ingestToken}`) {
+        return jsonResponse({ error: 'Unauthorized.' }, 401, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return jsonResponse({ error: 'Request body must be valid JSON.' }, 400);
+    }
+    const result = validateAnalyticsEvent(body);
+    if (!result.ok) {
+        return jsonResponse({ error: result.error }, 400);
+    }
+
+    try {
+        await getAnalyticsStore().save(result.event);
+    } catch (error) {
+        if (error instanceof JsonlFileFullError) {
+            logger.error('analytics.store_full', { maxBytes: error.maxBytes });
+            return jsonResponse({ error: 'Analytics storage is full.', code: 'STORE_FULL' }, 507);
+        }
+        logger.error('analytics.save_failed', { error });
+        return jsonResponse({ error: 'Failed to save analytics event.' }, 500);
+    }
+    return jsonResponse({ id: result.event.id }, 201);
+}
+
+// ローカルファイルに書き込むため Node.js ランタイムで実行する
+export const runtime = 'nodejs';
@@ -0,0 +1,19 @@
+// app/api/backends/route.ts
+import { type NextRequest } from 'next/server';
+import { jsonResponse } from '@/lib/http';
+import { getBackendRegistry, listBackendSummaries } from '@/lib/backends';
+import { isLocale } from '@/lib/i18n';
+
+const backendRegistry = getBackendRegistry();
+
+/**
+ * 選択できるアシスタントの一覧を返す (接続先が設定されていないものは含めない)
+ * GET /api/backends?locale=en
+ */
+export async function GET(request: NextRequest) {
+    const locale = request.nextUrl.searchParams.get('locale');
+    return jsonResponse(listBackendSummaries(backendRegistry, isLocale(locale) ? locale : undefined));
+}
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,61 @@
+// app/api/feedback/export/route.ts
+import { type NextRequest } from 'next/server';
+import { jsonResponse } from '@/lib/http';
+import { toCsv } from '@/lib/csv';
+import { getFeedbackStore } from '@/lib/feedbackStore';
+import type { FeedbackRecord } from '@/types/feedback';
+
+// エクスポート用のトークン (未設定の場合はエクスポートを無効にする)
+const exportToken = process.env.FEEDBACK_EXPORT_TOKEN;
+
+const csvColumns: (keyof FeedbackRecord & string)[] = [
+    'id', 'createdAt', 'rating', 'reason', 'comment', 'query', 'answer', 'sources', 'conversationId', 'messageId', 'queryMessageId',
+];
+
+/**
+ * コンテンツチーム向けにフィードバックを書き出す
+ * GET /api/feedback/export?format=jsonl|csv&rating=up|down&since=2025-04-01
+ * Authorization: Bearer <FEEDBACK_EXPORT_TOKEN>
+ */
+export async function GET(request: NextRequest) {
+    if (!exportToken) {
+        return jsonResponse({ error: 'Feedback export is disabled.' }, 404);
+    }
+    if (request.headers.get('authorization') !== `Bearer ${exportToken}`) {
+        return jsonResponse({ error: 'Unauthorized.' }, 401, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const format = searchParams.get('format') ?? 'jsonl';
+    const rating = searchParams.get('rating');
+    const since = searchParams.get('since');
+
+    if (format !== 'jsonl' && format !== 'csv') {
+        return jsonResponse({ error: 'format must be "jsonl" or "csv".' }, 400);
+    }
+    if (rating !== null && rating !== 'up' && rating !== 'down') {
+        return jsonResponse({ error: 'rating must be "up" or "down".' }, 400);
+    }
+    const sinceDate = since ? new Date(since) : undefined;
+    if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+        return jsonResponse({ error: 'since must be a valid date.' }, 400);
+    }
+
+    const records = await getFeedbackStore().list({ rating: rating ?? undefined, since: sinceDate });
+    const fileName = `feedback-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    const body = format === 'csv'
+        ? toCsv(records, csvColumns)
+        : records.map((record) => JSON.stringify(record)).join('\n');
+
+    return new Response(body, {
+        status: 200,
+        headers: {
+            'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${fileName}"`,
+            'Cache-Control': 'no-store',
+        },
+    });
+}
+
+export const runtime = 'nodejs';
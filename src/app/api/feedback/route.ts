@@ -0,0 +1,62 @@
+// app/api/feedback/route.ts
+import { type NextRequest } from 'next/server';
+import { jsonResponse, rateLimitedResponse, readJsonBody } from '@/lib/http';
+import { validateFeedback } from '@/lib/feedback';
+import { getFeedbackStore } from '@/lib/feedbackStore';
+import { JsonlFileFullError } from '@/lib/jsonlFile';
+import { logger } from '@/lib/logger';
+import { createRateLimiter, getClientIp } from '@/lib/rateLimit';
+import type { FeedbackRecord } from '@/types/feedback';
+
+// 受け付けるリクエストボディの大きさ (質問と回答は 20000 文字まで)
+const MAX_BODY_BYTES = 256 * 1024;
+
+// IP ごとのレート制限 (RATE_LIMIT_ENABLED=false で /api/generate と一緒に止める)
+const rateLimitEnabled = process.env.RATE_LIMIT_ENABLED !== 'false';
+const rateLimiter = createRateLimiter({
+    ip: {
+        burst: Number(process.env.FEEDBACK_RATE_LIMIT_BURST) || 10,
+        refillPerMinute: Number(process.env.FEEDBACK_RATE_LIMIT_PER_MINUTE) || 10,
+    },
+});
+
+// 回答へのフィードバック (👍/👎、理由、コメント) を保存する
+export async function POST(request: NextRequest) {
+    if (rateLimitEnabled) {
+        const rateLimit = await rateLimiter.check({ ip: getClientIp(request.headers) });
+        if (!rateLimit.allowed) {
+            logger.warn('feedback.rate_limited');
+            return rateLimitedResponse(rateLimit.retryAfterMs);
+        }
+    }
+
+    const bodyResult = await readJsonBody(request, MAX_BODY_BYTES);
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const result = validateFeedback(bodyResult.body);
+    if (!result.ok) {
+        return jsonResponse({ error: result.error }, 400);
+    }
+
+    const record: FeedbackRecord = {
+        ...result.feedback,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+    };
+
+    try {
+        await getFeedbackStore().save(record);
+    } catch (error) {
+        if (error instanceof JsonlFileFullError) {
+            logger.error('feedback.store_full', { maxBytes: error.maxBytes });
+            return jsonResponse({ error: 'Feedback storage is full.', code: 'STORE_FULL' }, 507);
+        }
+        logger.error('feedback.save_failed', { error });
+        return jsonResponse({ error: 'Failed to save feedback.' }, 500);
+    }
+
+    return jsonResponse({ id: record.id }, 201);
+}
+
+// ローカルファイルに書き込むため Node.js ランタイムで実行する
+export const runtime = 'nodejs';
@@ -1,80 +1,513 @@
 // app/api/generate/route.ts
-import { type NextRequest } from 'next/server';
+import { after, type NextRequest } from 'next/server';
+import { validateHistory, type HistoryLimits } from '@/lib/history';
+import { jsonResponse } from '@/lib/http';
+import { createCircuitBreaker, type CircuitBreaker } from '@/lib/circuitBreaker';
+import { fetchUpstream, UpstreamError, type UpstreamOptions } from '@/lib/upstream';
+import { createMockRagFetch } from '@/lib/mockRag';
+import { upstreamAdapters, withUpstreamAdapter } from '@/lib/upstreamAdapters';
+import { deriveSuggestionsFromSources, withFallbackSuggestions } from '@/lib/suggestions';
+import { DEFAULT_LOCALE, isLocale } from '@/lib/i18n';
+import { getInputGuardMessage, inputGuard } from '@/lib/inputGuard';
+import { findRequestedBackend, getBackendRegistry } from '@/lib/backends';
+import {
+    createAnswerCacheKey,
+    createMemoryAnswerCacheStore,
+    recordAnswerStream,
+    replayAnswerStream,
+} from '@/lib/answerCache';
+import { getRetryAfterSeconds, getServiceStatus, getServiceUnavailableCode } from '@/lib/serviceStatus';
+import {
+    createConcurrencyLimiter,
+    createRateLimiter,
+    getClientIp,
+    onStreamDone,
+} from '@/lib/rateLimit';
+import { getRequestId, logger, type Logger } from '@/lib/logger';
+import { redact, redactForLog } from '@/lib/redact';
+import { measureStream, type StreamStats } from '@/lib/streamMetrics';
+import { createAnalyticsReporter } from '@/lib/analytics';
+import { getGenerateMetrics } from '@/lib/generateMetrics';
+import type { RagRequestBody } from '@/types/rag';
 
-// API Route はサーバーサイドで実行されるため、ここで実際のAPI URLを使用
-const ragApiUrl = process.env.RAG_API_URL;
+// 転送先のアシスタント (RAG バックエンド) の一覧 (src/config/backends.json)
+// API Route はサーバーサイドで実行されるため、ここで実際のAPI URLと認証情報を使用
+// RAG_API_MOCK=true の場合、または開発中に URL が未設定の場合は組み込みのモックを使う
+const backendRegistry = getBackendRegistry();
+const mockRagFetch = createMockRagFetch();
 
+// 会話履歴を RAG API に転送するか (query のみ受け付けるバックエンドでは false にする)
+const sendHistory = process.env.RAG_API_SEND_HISTORY !== 'false';
+
+// 回答に使う言語を RAG API に転送するか (locale を受け付けないバックエンドでは false にする)
+const sendLocale = process.env.RAG_API_SEND_LOCALE !== 'false';
+
+// 会話履歴の上限
+const historyLimits: HistoryLimits = {
+    maxMessages: Number(process.env.RAG_MAX_HISTORY_MESSAGES) || 10,
+    maxMessageLength: Number(process.env.RAG_MAX_HISTORY_MESSAGE_LENGTH) || 2000,
+    maxTotalLength: Number(process.env.RAG_MAX_HISTORY_TOTAL_LENGTH) || 8000,
+};
+
+// 転送前の質問の検査 (最大文字数・個人情報・答えない話題・プロンプトインジェクション)
+// 規則は src/config/input-guard.json
+const inputGuardEnabled = process.env.INPUT_GUARD_ENABLED !== 'false';
+
+// バックエンドが次の質問の候補を返さない場合に、出典から候補を作って差し込むか
+const fallbackSuggestions = process.env.RAG_FALLBACK_SUGGESTIONS !== 'false';
+
+// RAG API への接続のタイムアウトとリトライ
+const upstreamOptions: UpstreamOptions = {
+    connectTimeoutMs: Number(process.env.RAG_CONNECT_TIMEOUT_MS) || 15000,
+    idleTimeoutMs: Number(process.env.RAG_IDLE_TIMEOUT_MS) || 30000,
+    maxRetries: Number(process.env.RAG_MAX_RETRIES ?? 2),
+    retryBackoffMs: Number(process.env.RAG_RETRY_BACKOFF_MS) || 500,
+};
+
+// 失敗が続いたら一定時間 RAG API への接続を止める (バックエンドごと・インスタンスごとに保持)
+const circuitBreakers = new Map<string, CircuitBreaker>();
+const getCircuitBreaker = (backendId: string) => {
+    let circuitBreaker = circuitBreakers.get(backendId);
+    if (!circuitBreaker) {
+        circuitBreaker = createCircuitBreaker({
+            failureThreshold: Number(process.env.RAG_CIRCUIT_FAILURE_THRESHOLD) || 5,
+            resetTimeoutMs: Number(process.env.RAG_CIRCUIT_RESET_MS) || 30000,
+        });
+        circuitBreakers.set(backendId, circuitBreaker);
+    }
+    return circuitBreaker;
+};
+
+// IP ごと・セッションごとのレート制限 (トークンバケット)
+// 複数インスタンスで共有する場合は createRateLimiter に RateLimitStore の実装を渡す
+const rateLimitEnabled = process.env.RATE_LIMIT_ENABLED !== 'false';
+const rateLimiter = createRateLimiter({
+    ip: {
+        burst: Number(process.env.RATE_LIMIT_IP_BURST) || 10,
+        refillPerMinute: Number(process.env.RATE_LIMIT_IP_PER_MINUTE) || 20,
+    },
+    session: {
+        burst: Number(process.env.RATE_LIMIT_SESSION_BURST) || 5,
+        refillPerMinute: Number(process.env.RATE_LIMIT_SESSION_PER_MINUTE) || 10,
+    },
+});
+
+// RAG API へ同時に流せるストリームの上限
+const streamLimiter = createConcurrencyLimiter(Number(process.env.RATE_LIMIT_MAX_CONCURRENT_STREAMS) || 20);
+
+// よくある質問の回答キャッシュ (インスタンスごと)
+// 複数インスタンスで共有する場合は AnswerCacheStore の実装に差し替える
+const answerCacheEnabled = process.env.ANSWER_CACHE_ENABLED !== 'false';
+const answerCacheTtlMs = (Number(process.env.ANSWER_CACHE_TTL_SECONDS) || 3600) * 1000;
+const answerCache = createMemoryAnswerCacheStore({
+    maxEntries: Number(process.env.ANSWER_CACHE_MAX_ENTRIES) || 500,
+    maxBytes: Number(process.env.ANSWER_CACHE_MAX_BYTES) || 5 * 1024 * 1024,
+});
+// キャッシュを無効化する DELETE に必要なトークン (未設定の場合は無効化できない)
+const answerCacheAdminToken = process.env.ANSWER_CACHE_ADMIN_TOKEN;
+
+// Prometheus 形式のメトリクス (プロセスごと。GET /api/metrics で出力する)
+const { requestsTotal, ttfbSeconds, streamDurationSeconds, activeStreams, upstreamErrorsTotal } = getGenerateMetrics();
+
+// ストリームの枠を確保し、確保・解放のたびに同時ストリーム数のゲージを更新する
+const acquireStream = () => {
+    const release = streamLimiter.tryAcquire();
+    activeStreams.set(streamLimiter.active);
+    return release && (() => {
+        release();
+        activeStreams.set(streamLimiter.active);
+    });
+};
+
+// 管理画面 (/admin) で集計する利用状況の記録 (ANALYTICS_INGEST_URL の /api/analytics に送る)
+// ANALYTICS_INGEST_TOKEN と ANALYTICS_INGEST_URL のどちらかが未設定の場合は記録しない
+const analyticsToken = process.env.ANALYTICS_INGEST_TOKEN;
+const analyticsUrl = process.env.ANALYTICS_INGEST_URL;
+const reportAnalytics = analyticsToken && analyticsUrl
+    ? createAnalyticsReporter({ token: analyticsToken, url: analyticsUrl })
+    : null;
+if (analyticsToken && !analyticsUrl) logger.warn('analytics.ingest_url_missing');
+
+/**
+ * リクエストの Cache-Control からキャッシュの使い方を決める
+ * no-store: 読みも書きもしない / no-cache: 読まずに新しい回答で上書きする (再生成)
+ */
+const getCacheMode = (cacheControl: string | null) => {
+    if (!answerCacheEnabled) return { read: false, write: false };
+    const directives = (cacheControl ?? '').toLowerCase().split(',').map((directive) => directive.trim());
+    if (directives.includes('no-store')) return { read: false, write: false };
+    if (directives.includes('no-cache')) return { read: false, write: true };
+    return { read: true, write: true };
+};
+
+// SSE のレスポンスヘッダー
+const sseHeaders = (init?: HeadersInit) => {
+    const headers = new Headers(init);
+    headers.delete('Content-Length');
+    headers.set('Content-Type', 'text/event-stream; charset=utf-8'); // 明示的に設定推奨
+    headers.set('Cache-Control', 'no-cache');
+    headers.set('Connection', 'keep-alive');
+    return headers;
+};
+
+// 最初のバイトが届く前に失敗した場合のステータスコード
+const upstreamErrorStatus = (error: UpstreamError) => {
+    switch (error.code) {
+        case 'CIRCUIT_OPEN':
+            return 503;
+        case 'UPSTREAM_TIMEOUT':
+            return 504;
+        case 'CLIENT_CLOSED_REQUEST':
+            return 499; // nginx と同じく、クライアントが閉じたリクエストとして記録する
+        default:
+            return 502;
+    }
+};
+
+/** リクエストの処理結果としてログに残す項目 (handleGenerate が書き込む) */
+interface RequestAudit {
+    code?: string; // エラーコード
+    cache?: 'HIT' | 'MISS' | 'BYPASS';
+    upstreamStatus?: number;
+    backend?: string;
+    historyLength?: number;
+    locale?: string;
+    query?: string; // 個人情報を伏せた質問 (利用状況の記録にだけ使い、ログには残さない)
+}
+
+/**
+ * 質問を RAG API に転送する
+ * すべてのレスポンスに X-Request-Id を付け、レスポンス (ストリームの場合は終了時) ごとに
+ * レイテンシ、上流のステータス、バイト数・トークン数を 1 行のログとして残す。
+ */
 export async function POST(request: NextRequest) {
-    // API URLが設定されていない場合のエラーハンドリング
-    if (!ragApiUrl) {
-        console.error('Error: RAG_API_URL environment variable is not set.');
-        return new Response(JSON.stringify({ error: 'API endpoint configuration error.' }), {
-            status: 500,
-            headers: { 'Content-Type': 'application/json' },
+    const requestId = getRequestId(request.headers);
+    const startedAt = Date.now();
+    const log = logger.child({ requestId, route: '/api/generate' });
+    const audit: RequestAudit = {};
+
+    const response = await handleGenerate(request, log, audit);
+    response.headers.set('X-Request-Id', requestId);
+
+    const { query, ...auditFields } = audit;
+    const fields = {
+        status: response.status,
+        ...auditFields,
+        sessionId: request.headers.get('x-session-id') ?? undefined,
+        ttfbMs: Date.now() - startedAt,
+    };
+    // 記録はレスポンスの後 (ストリームの場合は終わったとき) に送る。
+    // 送信の完了を after() に渡し、サーバーレス環境でも送り終わる前に処理を終了させない
+    let resolveRecorded: ((sent: Promise<void>) => void) | undefined;
+    if (reportAnalytics) after(new Promise<void>((resolve) => { resolveRecorded = resolve; }));
+    const recordAnalytics = (stats?: StreamStats) => {
+        if (!reportAnalytics || !resolveRecorded) return;
+        resolveRecorded(reportAnalytics({
+            id: crypto.randomUUID(),
+            createdAt: new Date(startedAt).toISOString(),
+            requestId,
+            status: response.status,
+            code: audit.code ?? stats?.errorCode,
+            backend: audit.backend,
+            locale: audit.locale,
+            cache: audit.cache,
+            query,
+            ttfbMs: fields.ttfbMs,
+            durationMs: stats?.durationMs,
+            tokens: stats?.tokens,
+            outcome: stats?.outcome,
+        }, log));
+    };
+    requestsTotal.inc({ status: String(response.status) });
+    if (!response.body || !response.headers.get('content-type')?.startsWith('text/event-stream')) {
+        log.info('request.completed', fields);
+        recordAnalytics();
+        return response;
+    }
+    ttfbSeconds.observe(fields.ttfbMs / 1000);
+    const body = measureStream(response.body, (stats) => {
+        const durationMs = Date.now() - startedAt;
+        streamDurationSeconds.observe(durationMs / 1000, { outcome: stats.outcome });
+        // ストリームの途中で上流が失敗した場合 (event: error)
+        if (stats.errorCode) upstreamErrorsTotal.inc({ backend: audit.backend ?? '', code: stats.errorCode });
+        log.info('request.completed', { ...fields, ...stats, durationMs });
+        recordAnalytics({ ...stats, durationMs });
+    });
+    return new Response(body, { status: response.status, headers: response.headers });
+}
+
+const handleGenerate = async (request: NextRequest, log: Logger, audit: RequestAudit): Promise<Response> => {
+    // 読み取り専用・メンテナンス中・サービス終了の場合は質問を受け付けない
+    const serviceStatus = await getServiceStatus();
+    const unavailableCode = getServiceUnavailableCode(serviceStatus);
+    if (unavailableCode) {
+        const retryAfter = getRetryAfterSeconds(serviceStatus);
+        audit.code = unavailableCode;
+        return jsonResponse(
+            { error: serviceStatus.message || 'SenpaiChat is not accepting questions right now.', code: unavailableCode, status: serviceStatus },
+            503,
+            retryAfter ? { 'Retry-After': String(retryAfter) } : {},
+        );
+    }
+
+    // レート制限
+    if (rateLimitEnabled) {
+        const ip = getClientIp(request.headers);
+        // 信頼するプロキシを経由していない (TRUSTED_PROXY_HOPS の設定が構成と合っていない可能性がある)
+        if (!ip) log.warn('rate_limit.client_ip_unknown');
+        const rateLimit = await rateLimiter.check({
+            ip,
+            sessionId: request.headers.get('x-session-id') ?? undefined,
         });
+        if (!rateLimit.allowed) {
+            const retryAfter = Math.ceil(rateLimit.retryAfterMs / 1000);
+            audit.code = 'RATE_LIMITED';
+            return jsonResponse(
+                { error: 'Too many requests. Please wait before asking again.', code: 'RATE_LIMITED', retryAfter },
+                429,
+                { 'Retry-After': String(retryAfter) },
+            );
+        }
+    }
+
+    // 上流への同時ストリーム数の上限 (ストリームが終わるまで枠を確保する)
+    const releaseStream = acquireStream();
+    if (!releaseStream) {
+        audit.code = 'CONCURRENCY_LIMITED';
+        return jsonResponse(
+            { error: 'The service is busy. Please try again shortly.', code: 'CONCURRENCY_LIMITED', retryAfter: 5 },
+            429,
+            { 'Retry-After': '5' },
+        );
     }
+    let streamStarted = false;
 
     try {
         // クライアントからのリクエストボディを取得
-        const { query } = await request.json();
+        const { query, history, locale: requestedLocale, backend: backendId } = await request.json();
 
         // queryパラメータのバリデーション
         if (!query || typeof query !== 'string' || query.trim() === '') {
-            return new Response(JSON.stringify({ error: 'Query parameter is missing or invalid.' }), {
-                status: 400,
-                headers: { 'Content-Type': 'application/json' },
-            });
+            return jsonResponse({ error: 'Query parameter is missing or invalid.' }, 400);
+        }
+
+        // historyパラメータのバリデーション (省略時は空の履歴)
+        const historyResult = validateHistory(history, historyLimits);
+        if (!historyResult.ok) {
+            return jsonResponse({ error: historyResult.error }, 400);
+        }
+
+        // 未対応の言語や省略時は既定の言語で回答する
+        const locale = isLocale(requestedLocale) ? requestedLocale : DEFAULT_LOCALE;
+        audit.locale = locale;
+        audit.historyLength = historyResult.history.length;
+
+        // 外部の RAG API に送る前に質問を検査する (止めた理由は選択中の言語で返す)
+        // redact のルールに一致した個人情報は質問と会話履歴の両方で伏せ、block のルールは質問なら止め、会話履歴なら伏せる
+        let forwardedQuery: string = query;
+        let forwardedHistory = historyResult.history;
+        if (inputGuardEnabled) {
+            const guard = inputGuard.check(query);
+            if (!guard.ok) {
+                audit.code = guard.code;
+                log.warn('input_guard.blocked', { code: guard.code, rule: guard.ruleId });
+                return jsonResponse(
+                    { error: getInputGuardMessage(guard.code, locale, inputGuard.maxLength), code: guard.code },
+                    422,
+                );
+            }
+            if (guard.redactedRules.length > 0) log.info('input_guard.redacted', { rules: guard.redactedRules });
+            forwardedQuery = guard.query;
+            forwardedHistory = forwardedHistory.map((msg) => ({ ...msg, content: inputGuard.redactHistory(msg.content) }));
+        }
+        audit.query = redact(forwardedQuery);
+
+        // backend を省略した場合は既定のアシスタントに転送する
+        const lookup = findRequestedBackend(backendRegistry, backendId);
+        if (!lookup.ok) {
+            return jsonResponse({ error: lookup.error, code: 'UNKNOWN_BACKEND' }, 400);
         }
+        const { backend } = lookup;
+        audit.backend = backend.entry.id;
 
-        console.log(`Forwarding query to RAG API: ${query.substring(0, 50)}...`);
+        // API URLが設定されていない場合のエラーハンドリング
+        const upstreamUrl = backend.useMock ? 'mock://rag' : backend.url;
+        if (!upstreamUrl) {
+            log.error('config.missing_rag_api_url', { backend: backend.entry.id, urlEnv: backend.entry.urlEnv });
+            return jsonResponse({ error: 'API endpoint configuration error.' }, 500);
+        }
+
+        const ragRequestBody: RagRequestBody = { query: forwardedQuery };
+        if (sendHistory && forwardedHistory.length > 0) {
+            ragRequestBody.history = forwardedHistory;
+        }
+        if (sendLocale) {
+            ragRequestBody.locale = locale;
+        }
+
+        // キャッシュにあれば RAG API を呼ばずに保存済みのストリームを再生する
+        const cacheMode = getCacheMode(request.headers.get('cache-control'));
+        const cacheKey = cacheMode.read || cacheMode.write
+            ? await createAnswerCacheKey({ query: forwardedQuery, history: forwardedHistory, locale, backend: backend.entry.id })
+            : null;
+        if (cacheKey && cacheMode.read) {
+            const cached = await answerCache.get(cacheKey, Date.now());
+            if (cached) {
+                audit.cache = 'HIT';
+                log.debug('answer_cache.hit', { cacheKey, query: redactForLog(forwardedQuery) });
+                const headers = sseHeaders({
+                    'X-Cache': 'HIT',
+                    'X-Cache-Key': cacheKey,
+                    Age: String(Math.floor((Date.now() - cached.createdAt) / 1000)),
+                });
+                return new Response(replayAnswerStream(cached.body), { status: 200, headers });
+            }
+        }
+
+        audit.cache = cacheMode.read ? 'MISS' : 'BYPASS';
+        // 質問は個人情報を伏せてから記録する
+        log.info('upstream.forwarding', {
+            query: redactForLog(forwardedQuery),
+            historyLength: ragRequestBody.history?.length ?? 0,
+            locale,
+        });
 
-        // 実際のRAG API (FastAPI) にリクエストを転送
-        const response = await fetch(ragApiUrl, {
+        // RAG API の方式に合わせてリクエストを組み立て、レスポンスを正規化した SSE に変換する
+        // (モックは fastapi の形式で応答する)
+        const adapter = upstreamAdapters[backend.useMock ? 'fastapi' : backend.entry.protocol ?? 'fastapi'];
+        const fetchImpl = withUpstreamAdapter(adapter, backend.useMock ? mockRagFetch : fetch);
+
+        // 実際のRAG APIにリクエストを転送 (最初のバイトが届くまでは失敗を再試行する)
+        const circuitBreaker = getCircuitBreaker(backend.entry.id);
+        const { response, body } = await fetchUpstream(upstreamUrl, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                // FastAPI側に認証が必要な場合は、ここでヘッダーを追加
-                // 'Authorization': `Bearer ${process.env.RAG_API_KEY}`,
+                Accept: adapter.accept,
+                // バックエンドごとの固定のヘッダーと認証ヘッダー (backends.json の headers と auth)
+                ...backend.headers,
             },
-            body: JSON.stringify({ query }),
+            body: JSON.stringify(adapter.createBody(ragRequestBody, backend.entry)),
             // 重要: duplex: 'half' を指定しないと Vercel Edge Functions などでストリーミングがうまくいかないことがある
             // 参考: https://github.com/vercel/next.js/issues/49999
             // @ts-expect-error node-fetch と型定義が異なるため無視
             duplex: 'half',
-        });
+        }, upstreamOptions, circuitBreaker, request.signal, fetchImpl, log);
+        audit.upstreamStatus = response.status;
 
-        // RAG APIからのエラーレスポンスをチェック
+        // RAG APIからのエラーレスポンスをチェック (再試行しても意味のない 4xx)
         if (!response.ok) {
             const errorText = await response.text();
-            console.error(`Error response from RAG API (${response.status}): ${errorText}`);
+            log.error('upstream.error_response', { upstreamStatus: response.status, error: errorText });
+            upstreamErrorsTotal.inc({ backend: backend.entry.id, code: 'UPSTREAM_ERROR' });
             // エラー詳細をクライアントに返す（本番では情報を制限することも検討）
-            return new Response(JSON.stringify({ error: `Failed to get response from SenpaiChat API: ${response.status}. ${errorText}` }), {
-                status: response.status, // 元のエラーステータスを引き継ぐ
-                headers: { 'Content-Type': 'application/json' },
-            });
+            // 元のエラーステータスを引き継ぐ
+            return jsonResponse({ error: `Failed to get response from SenpaiChat API: ${response.status}. ${errorText}` }, response.status);
         }
 
-        // RAG APIからのSSEストリームをそのままクライアントに返す
+        // 正規化した SSE ストリームをクライアントに返す
+        // (回答本文だけでなく event: sources などのイベントもそのまま転送する)
         // Content-Typeなどのヘッダーも引き継ぐ
-        const headers = new Headers(response.headers);
-        headers.set('Content-Type', 'text/event-stream; charset=utf-8'); // 明示的に設定推奨
-        headers.set('Cache-Control', 'no-cache');
-        headers.set('Connection', 'keep-alive');
+        // ストリーム途中の障害は event: error として末尾に追加されるため Content-Length は引き継がない
+        const headers = sseHeaders(response.headers);
+        headers.set('X-Cache', audit.cache);
+        if (cacheKey) headers.set('X-Cache-Key', cacheKey);
 
-        return new Response(response.body, {
+        streamStarted = body !== null;
+        let stream = body && fallbackSuggestions
+            ? withFallbackSuggestions(body, (sources) => deriveSuggestionsFromSources(sources, locale))
+            : body;
+        // 最後まで正常に届いた回答だけをキャッシュに保存する
+        if (stream && cacheKey && cacheMode.write) {
+            stream = recordAnswerStream(stream, (answerBody, sourceTags) => {
+                const now = Date.now();
+                answerCache.set({
+                    key: cacheKey,
+                    body: answerBody,
+                    tags: [`backend:${backend.entry.id}`, `locale:${locale}`, ...sourceTags],
+                    createdAt: now,
+                    expiresAt: now + answerCacheTtlMs,
+                }).catch((err) => log.error('answer_cache.store_failed', { error: err }));
+            });
+        }
+        return new Response(stream && onStreamDone(stream, releaseStream), {
             status: 200,
             headers: headers,
         });
 
     } catch (error) {
-        console.error('Error in API route proxy:', error);
+        // 上流の応答を待つ間にクライアントが切断した (上流の障害ではないのでエラーとして数えない)
+        if (error instanceof UpstreamError && error.code === 'CLIENT_CLOSED_REQUEST') {
+            audit.code = error.code;
+            log.info('request.client_closed');
+            return new Response(null, { status: upstreamErrorStatus(error) });
+        }
+        // RAG API に接続できなかった (リトライ済み、またはサーキットが open)
+        if (error instanceof UpstreamError) {
+            audit.code = error.code;
+            audit.upstreamStatus = error.status;
+            log.error('upstream.request_failed', { code: error.code, error: error.message });
+            upstreamErrorsTotal.inc({ backend: audit.backend ?? '', code: error.code });
+            const headers: Record<string, string> = {};
+            if (error.code === 'CIRCUIT_OPEN' && audit.backend) {
+                headers['Retry-After'] = String(Math.ceil(getCircuitBreaker(audit.backend).retryAfterMs() / 1000));
+            }
+            return jsonResponse(
+                { error: `Failed to get response from SenpaiChat API: ${error.message}`, code: error.code },
+                upstreamErrorStatus(error),
+                headers,
+            );
+        }
+
+        log.error('request.unexpected_error', { error });
         // 想定外のエラー
-        return new Response(JSON.stringify({ error: 'An internal server error occurred while processing your request.' }), {
-            status: 500,
-            headers: { 'Content-Type': 'application/json' },
-        });
+        return jsonResponse({ error: 'An internal server error occurred while processing your request.' }, 500);
+    } finally {
+        // ストリームを返さなかった場合はここで枠を解放する
+        if (!streamStarted) releaseStream();
     }
+};
+
+/**
+ * 回答キャッシュを無効化する
+ * DELETE /api/generate?key=<X-Cache-Key> | ?tag=source:<出典の URL またはタイトル> (backend:<id>、locale:<言語> も可) | ?all=true
+ * Authorization: Bearer <ANSWER_CACHE_ADMIN_TOKEN>
+ * (キャッシュはこのモジュールのメモリにあるため、同じ Route で受け付ける)
+ */
+export async function DELETE(request: NextRequest) {
+    const requestId = getRequestId(request.headers);
+    const log = logger.child({ requestId, route: '/api/generate' });
+    const response = await handleInvalidate(request, log);
+    response.headers.set('X-Request-Id', requestId);
+    return response;
 }
 
-// Vercelでのパフォーマンス向上のためEdge Runtimeを推奨 (Node.js固有APIを使わない場合)
-export const runtime = 'edge';
\ No newline at end of file
+const handleInvalidate = async (request: NextRequest, log: Logger): Promise<Response> => {
+    if (!answerCacheAdminToken) {
+        return jsonResponse({ error: 'Answer cache invalidation is disabled.' }, 404);
+    }
+    if (request.headers.get('authorization') !== `Bearer ${answerCacheAdminToken}`) {
+        log.warn('answer_cache.invalidate_unauthorized');
+        return jsonResponse({ error: 'Unauthorized.' }, 401, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const key = searchParams.get('key');
+    const tag = searchParams.get('tag');
+    let deleted: number;
+    if (key) {
+        deleted = (await answerCache.delete(key)) ? 1 : 0;
+    } else if (tag) {
+        deleted = await answerCache.deleteByTag(tag);
+    } else if (searchParams.get('all') === 'true') {
+        deleted = await answerCache.clear();
+    } else {
+        return jsonResponse({ error: 'Specify key, tag or all=true.' }, 400);
+    }
+    // 監査のため、誰が何を消したかを残す
+    log.info('answer_cache.invalidated', { key: key ?? undefined, tag: tag ?? undefined, all: !key && !tag, deleted });
+    return jsonResponse({ deleted });
+};
+
+// メトリクスを /api/metrics と共有するため Node.js ランタイムで実行する (lib/generateMetrics.ts)
+export const runtime = 'nodejs';
\ No newline at end of file
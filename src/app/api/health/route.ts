@@ -0,0 +1,10 @@
+// app/api/health/route.ts
+import { jsonResponse } from '@/lib/http';
+
+// 生存確認 (プロセスが応答できるか)。上流や設定は確かめない (/api/ready を使う)
+export async function GET() {
+    return jsonResponse({ status: 'ok' }, 200, { 'Cache-Control': 'no-store' });
+}
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,29 @@
+// app/api/metrics/route.ts
+import { type NextRequest } from 'next/server';
+import { getGenerateMetrics } from '@/lib/generateMetrics';
+import { jsonResponse } from '@/lib/http';
+import { PROMETHEUS_CONTENT_TYPE } from '@/lib/metrics';
+
+// 出力に必要なトークン。本番では未設定なら出力しない (開発中だけ誰でも取得できる)
+const metricsToken = process.env.METRICS_TOKEN;
+const metricsOpen = !metricsToken && process.env.NODE_ENV !== 'production';
+
+/**
+ * Prometheus 形式のメトリクスを返す
+ * Authorization: Bearer <METRICS_TOKEN>
+ */
+export async function GET(request: NextRequest) {
+    if (!metricsToken && !metricsOpen) {
+        return jsonResponse({ error: 'Metrics are disabled. Set METRICS_TOKEN to enable them.' }, 404);
+    }
+    if (metricsToken && request.headers.get('authorization') !== `Bearer ${metricsToken}`) {
+        return jsonResponse({ error: 'Unauthorized.' }, 401, { 'WWW-Authenticate': 'Bearer' });
+    }
+    return new Response(getGenerateMetrics().registry.render(), {
+        headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE, 'Cache-Control': 'no-store' },
+    });
+}
+
+// /api/generate と同じプロセスのメモリにある値を出力するため Node.js ランタイムで実行する
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
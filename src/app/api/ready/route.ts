@@ -0,0 +1,32 @@
+// app/api/ready/route.ts
+import { getBackendRegistry, isBackendAvailable } from '@/lib/backends';
+import { jsonResponse } from '@/lib/http';
+import { logger } from '@/lib/logger';
+import { probeBackend } from '@/lib/readiness';
+
+const backendRegistry = getBackendRegistry();
+
+// 上流の疎通確認のタイムアウト
+const probeTimeoutMs = Number(process.env.READY_PROBE_TIMEOUT_MS) || 3000;
+
+/**
+ * 準備完了の確認 (ロードバランサーや Kubernetes の readinessProbe 向け)
+ * 既定のアシスタントの設定があり、その RAG API がタイムアウトまでに応答すれば 200、そうでなければ 503。
+ * ほかのアシスタントの結果も backends に含めるが、準備完了かどうかには影響しない。
+ */
+export async function GET() {
+    const backends = backendRegistry.list().filter((backend) => backend.entry.id === backendRegistry.defaultId || isBackendAvailable(backend));
+    const checks = await Promise.all(backends.map((backend) => probeBackend(backend, probeTimeoutMs)));
+    const defaultCheck = checks.find((check) => check.id === backendRegistry.defaultId);
+    const ready = defaultCheck?.ok === true;
+
+    if (!ready) logger.warn('readiness.failed', { route: '/api/ready', backend: defaultCheck });
+    return jsonResponse(
+        { status: ready ? 'ready' : 'not_ready', defaultBackend: backendRegistry.defaultId, backends: checks },
+        ready ? 200 : 503,
+        { 'Cache-Control': 'no-store' },
+    );
+}
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,43 @@
+// app/api/sample-questions/route.ts
+import { type NextRequest } from 'next/server';
+import { jsonResponse } from '@/lib/http';
+import { selectSampleQuestions } from '@/lib/sampleQuestions';
+import { isLocale } from '@/lib/i18n';
+import { getBackendRegistry } from '@/lib/backends';
+
+const MAX_LIMIT = 20;
+
+const backendRegistry = getBackendRegistry();
+
+/**
+ * カテゴリごとの質問例を返す (リクエストのたびに入れ替わる)
+ * GET /api/sample-questions?audience=applicant&category=dorm&limit=3&locale=en&backend=advisor
+ * backend を指定した場合は、そのアシスタントが扱うカテゴリだけを返す
+ */
+export async function GET(request: NextRequest) {
+    const { searchParams } = request.nextUrl;
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? undefined : Number(limitParam);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)) {
+        return jsonResponse({ error: `limit must be an integer between 1 and ${MAX_LIMIT}.` }, 400);
+    }
+
+    const backendId = searchParams.get('backend');
+    const backend = backendRegistry.get(backendId ?? undefined);
+    if (!backend) {
+        return jsonResponse({ error: `Unknown backend: ${backendId}`, code: 'UNKNOWN_BACKEND' }, 400);
+    }
+
+    const locale = searchParams.get('locale');
+    const result = selectSampleQuestions({
+        locale: isLocale(locale) ? locale : undefined,
+        audience: searchParams.get('audience') ?? undefined,
+        category: searchParams.get('category') ?? undefined,
+        categoryIds: backendId ? backend.entry.sampleQuestionCategories : undefined,
+        limit,
+    });
+    return jsonResponse(result, 200, { 'Cache-Control': 'no-store' });
+}
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
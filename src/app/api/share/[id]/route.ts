@@ -0,0 +1,45 @@
+// app/api/share/[id]/route.ts
+import { type NextRequest } from 'next/server';
+import { jsonResponse } from '@/lib/http';
+import { hashShareToken, isShareId } from '@/lib/share';
+import { getShareStore } from '@/lib/shareStore';
+import { logger } from '@/lib/logger';
+
+// 作成した人以外 (運営者) が共有を停止するためのトークン (未設定なら作成した人だけが停止できる)
+const shareAdminToken = process.env.SHARE_ADMIN_TOKEN;
+
+/**
+ * 共有を停止する (以後 /share/<id> は開けなくなる)
+ * Authorization: Bearer <作成時の revokeToken または SHARE_ADMIN_TOKEN>
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    if (!isShareId(id)) {
+        return jsonResponse({ error: 'Shared conversation not found.' }, 404);
+    }
+
+    const store = getShareStore();
+    const record = await store.get(id);
+    if (!record) {
+        return jsonResponse({ error: 'Shared conversation not found.' }, 404);
+    }
+
+    const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    const isAdmin = !!shareAdminToken && token === shareAdminToken;
+    if (!isAdmin && (!token || (await hashShareToken(token)) !== record.revokeTokenHash)) {
+        return jsonResponse({ error: 'Unauthorized.' }, 401, { 'WWW-Authenticate': 'Bearer' });
+    }
+
+    try {
+        await store.revoke(id, new Date());
+    } catch (error) {
+        logger.error('share.revoke_failed', { shareId: id, error });
+        return jsonResponse({ error: 'Failed to revoke the shared conversation.' }, 500);
+    }
+
+    logger.info('share.revoked', { shareId: id, byAdmin: isAdmin });
+    return jsonResponse({ id, revoked: true });
+}
+
+// ローカルファイルを読み書きするため Node.js ランタイムで実行する
+export const runtime = 'nodejs';
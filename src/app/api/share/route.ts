@@ -0,0 +1,92 @@
+// app/api/share/route.ts
+import { type NextRequest } from 'next/server';
+import { jsonResponse, rateLimitedResponse, readJsonBody } from '@/lib/http';
+import { createShareToken, hashShareToken, redactSharePayload, validateSharePayload } from '@/lib/share';
+import { getShareStore } from '@/lib/shareStore';
+import { logger } from '@/lib/logger';
+import { createRateLimiter, getClientIp } from '@/lib/rateLimit';
+import type { ShareRecord, ShareResponse } from '@/types/share';
+
+// SHARE_ENABLED=false で共有リンクの作成を止める (作成済みのリンクは開ける)
+const shareEnabled = process.env.SHARE_ENABLED !== 'false';
+// 共有の有効期限の上限 (日)。設定すると無期限の共有は作れない
+const maxExpiryDays = Number(process.env.SHARE_MAX_EXPIRY_DAYS) || undefined;
+// 保存しておく共有の上限。達したら停止・期限切れの共有を削除し、それでも空きがなければ作成を断る
+const maxRecords = Number(process.env.SHARE_STORE_MAX_RECORDS) || 10000;
+// 受け付けるリクエストボディの大きさ (メッセージの合計は 200000 文字まで)
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// IP ごとのレート制限 (RATE_LIMIT_ENABLED=false で /api/generate と一緒に止める)
+const rateLimitEnabled = process.env.RATE_LIMIT_ENABLED !== 'false';
+const rateLimiter = createRateLimiter({
+    ip: {
+        burst: Number(process.env.SHARE_RATE_LIMIT_BURST) || 5,
+        refillPerMinute: Number(process.env.SHARE_RATE_LIMIT_PER_MINUTE) || 2,
+    },
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 会話のスナップショットを保存し、読み取り専用の共有リンクを返す
+ * 個人情報 (src/config/redaction-rules.json のルール) は伏せてから保存する。
+ * 返した revokeToken は DELETE /api/share/<id> で共有を停止するときに使う。
+ */
+export async function POST(request: NextRequest) {
+    if (!shareEnabled) {
+        return jsonResponse({ error: 'Sharing is disabled.' }, 404);
+    }
+
+    if (rateLimitEnabled) {
+        const rateLimit = await rateLimiter.check({ ip: getClientIp(request.headers) });
+        if (!rateLimit.allowed) {
+            logger.warn('share.rate_limited');
+            return rateLimitedResponse(rateLimit.retryAfterMs);
+        }
+    }
+
+    const bodyResult = await readJsonBody(request, MAX_BODY_BYTES);
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const result = validateSharePayload(bodyResult.body);
+    if (!result.ok) {
+        return jsonResponse({ error: result.error }, 400);
+    }
+
+    const share = redactSharePayload(result.share);
+    const expiresInDays = maxExpiryDays ? Math.min(share.expiresInDays ?? maxExpiryDays, maxExpiryDays) : share.expiresInDays;
+    const now = new Date();
+    const revokeToken = createShareToken();
+    const record: ShareRecord = {
+        id: createShareToken(),
+        title: share.title,
+        messages: share.messages,
+        backendId: share.backendId,
+        createdAt: now.toISOString(),
+        expiresAt: expiresInDays ? new Date(now.getTime() + expiresInDays * DAY_MS).toISOString() : undefined,
+        revokeTokenHash: await hashShareToken(revokeToken),
+    };
+
+    try {
+        const store = getShareStore();
+        if (await store.count() >= maxRecords) {
+            const pruned = await store.prune(now);
+            logger.info('share.pruned', { pruned });
+            if (await store.count() >= maxRecords) {
+                logger.error('share.store_full', { maxRecords });
+                return jsonResponse({ error: 'Too many conversations are shared right now.', code: 'STORE_FULL' }, 507);
+            }
+        }
+        await store.save(record);
+    } catch (error) {
+        logger.error('share.save_failed', { error });
+        return jsonResponse({ error: 'Failed to save the shared conversation.' }, 500);
+    }
+
+    logger.info('share.created', { shareId: record.id, messageCount: record.messages.length, expiresAt: record.expiresAt });
+    const response: ShareResponse = { id: record.id, url: `/share/${record.id}`, expiresAt: record.expiresAt, revokeToken };
+    return jsonResponse(response, 201);
+}
+
+// ローカルファイルに書き込むため Node.js ランタイムで実行する
+export const runtime = 'nodejs';
@@ -0,0 +1,11 @@
+// app/api/status/route.ts
+import { jsonResponse } from '@/lib/http';
+import { getServiceStatus } from '@/lib/serviceStatus';
+
+// 画面のバナーと入力欄の有効・無効を切り替えるための現在のサービスの状態
+export async function GET() {
+    return jsonResponse(await getServiceStatus(), 200, { 'Cache-Control': 'no-store' });
+}
+
+export const runtime = 'edge';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,49 @@
+// app/embed/page.tsx
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { cookies, headers } from 'next/headers';
+import EmbeddedChat from '@/components/EmbeddedChat';
+import { I18nProvider } from '@/components/I18nProvider';
+import { getMessages, LOCALE_COOKIE, resolveLocale } from '@/lib/i18n';
+import { getEmbedAllowedOrigins, isEmbedOriginAllowed, parseEmbedConfig } from '@/lib/embed';
+
+export const metadata: Metadata = {
+    title: 'SenpaiChat',
+    robots: { index: false }, // 埋め込み用の画面は検索エンジンに載せない
+};
+
+// public/embed.js が iframe で開く、他のサイトに埋め込むためのチャット画面
+// フレームに入れられるサイトは middleware.ts で Content-Security-Policy (frame-ancestors) を付けて制限している
+export default async function EmbedPage({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
+    const allowedOrigins = getEmbedAllowedOrigins();
+    if (!allowedOrigins) notFound();
+
+    const params = await searchParams;
+    const config = parseEmbedConfig(params);
+    const headerList = await headers();
+    const locale = config.locale ?? resolveLocale(
+        (await cookies()).get(LOCALE_COOKIE)?.value,
+        headerList.get('accept-language'),
+    );
+
+    // ?origin= は embed.js が付ける埋め込み先のオリジン (middleware.ts でも確認している)
+    // ない場合や許可していないオリジンの場合は表示しない
+    const origin = typeof params.origin === 'string' ? params.origin : null;
+    if (origin === null || !isEmbedOriginAllowed(origin, allowedOrigins)) {
+        return (
+            <main className="min-h-screen flex items-center justify-center px-6 bg-gray-50 text-center">
+                <p className="text-gray-600">{getMessages(locale).embed.forbidden}</p>
+            </main>
+        );
+    }
+    // イベントを送る先 (許可リストで確認した ?origin=)
+    const parentOrigin = new URL(origin).origin;
+
+    return (
+        <I18nProvider initialLocale={locale}>
+            <EmbeddedChat config={config} parentOrigin={parentOrigin} />
+        </I18nProvider>
+    );
+}
+
+export const dynamic = 'force-dynamic';
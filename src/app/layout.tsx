@@ -1,6 +1,9 @@
 // app/layout.tsx
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
+import { cookies, headers } from 'next/headers';
+import { I18nProvider } from '@/components/I18nProvider';
+import { LOCALE_COOKIE, resolveLocale } from '@/lib/i18n';
 import './globals.css';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -10,14 +13,22 @@ export const metadata: Metadata = {
     description: 'Chat with SenpaiChat RAG system',
 };
 
-export default function RootLayout({
-                                       children,
-                                   }: Readonly<{
+export default async function RootLayout({
+                                             children,
+                                         }: Readonly<{
     children: React.ReactNode;
 }>) {
+    // 手動で選んだ言語 (Cookie) を優先し、なければブラウザの Accept-Language から決める
+    const locale = resolveLocale(
+        (await cookies()).get(LOCALE_COOKIE)?.value,
+        (await headers()).get('accept-language'),
+    );
+
     return (
-        <html lang="ja">
-        <body className={inter.className}>{children}</body>
+        <html lang={locale}>
+        <body className={inter.className}>
+            <I18nProvider initialLocale={locale}>{children}</I18nProvider>
+        </body>
         </html>
     );
-}
\ No newline at end of file
+}
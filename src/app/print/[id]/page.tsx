@@ -0,0 +1,14 @@
+// app/print/[id]/page.tsx
+import type { Metadata } from 'next';
+import PrintableConversation from '@/components/PrintableConversation';
+
+export const metadata: Metadata = {
+    title: 'SenpaiChat',
+    robots: { index: false },
+};
+
+// 会話の印刷用の画面 (会話はブラウザの IndexedDB から読むため、保存したブラウザでのみ開ける)
+export default async function PrintPage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    return <PrintableConversation conversationId={id} />;
+}
@@ -0,0 +1,73 @@
+// app/share/[id]/page.tsx
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { cookies, headers } from 'next/headers';
+import { Link2, MessageSquare } from 'lucide-react';
+import ConversationTranscript from '@/components/ConversationTranscript';
+import { getBackendRegistry, toBackendSummary } from '@/lib/backends';
+import { formatMessage, getMessages, LOCALE_COOKIE, resolveLocale, toDateLocale } from '@/lib/i18n';
+import { isShareActive, isShareId } from '@/lib/share';
+import { getShareStore } from '@/lib/shareStore';
+import type { Message } from '@/types/chat';
+
+export const metadata: Metadata = {
+    title: 'SenpaiChat',
+    robots: { index: false }, // 共有リンクは検索エンジンに載せない
+};
+
+// 共有された会話の読み取り専用の画面
+export default async function SharePage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const locale = resolveLocale(
+        (await cookies()).get(LOCALE_COOKIE)?.value,
+        (await headers()).get('accept-language'),
+    );
+    const t = getMessages(locale);
+    const record = isShareId(id) ? await getShareStore().get(id) : null;
+
+    const startChatLink = (
+        <Link
+            href="/"
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-white bg-black hover:bg-gray-900"
+        >
+            <MessageSquare size={16} />
+            {t.share.startChat}
+        </Link>
+    );
+
+    if (!record || !isShareActive(record)) {
+        return (
+            <main className="min-h-screen flex flex-col items-center justify-center gap-6 px-6 bg-gray-50 text-center">
+                <p className="text-gray-600">{t.share.unavailable}</p>
+                {startChatLink}
+            </main>
+        );
+    }
+
+    const backendEntry = record.backendId ? getBackendRegistry().get(record.backendId)?.entry : undefined;
+    const messages: Message[] = record.messages.map((msg) => ({
+        ...msg,
+        timestamp: msg.timestamp ? new Date(msg.timestamp) : undefined,
+    }));
+    const sharedAt = new Date(record.createdAt).toLocaleDateString(toDateLocale(locale), { year: 'numeric', month: 'numeric', day: 'numeric' });
+
+    return (
+        <main className="min-h-screen bg-white">
+            <div className="max-w-3xl mx-auto px-6 py-8">
+                <p className="mb-8 px-4 py-2.5 rounded-xl bg-gray-50 border border-gray-200 text-sm text-gray-600 flex items-center gap-2">
+                    <Link2 size={16} className="flex-shrink-0" />
+                    {formatMessage(t.share.sharedAt, { date: sharedAt })}
+                </p>
+                <ConversationTranscript
+                    conversation={{ title: record.title, messages }}
+                    backendName={backendEntry && toBackendSummary(backendEntry, locale).name}
+                />
+                <div className="mt-10 text-center">{startChatLink}</div>
+            </div>
+        </main>
+    );
+}
+
+// ローカルファイルから読むため Node.js ランタイムで実行する
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,24 @@
+// components/AssistantAvatar.tsx
+import React from 'react';
+import Image from 'next/image';
+import { Bot } from 'lucide-react';
+
+interface AssistantAvatarProps {
+    avatar?: string; // アシスタントのアイコン画像 (未設定なら既定のアイコン)
+    size?: number;
+    className?: string;
+}
+
+// アシスタントのアイコン (回答の吹き出し・ピッカー・ようこそ画面で共通)
+const AssistantAvatar: React.FC<AssistantAvatarProps> = ({ avatar, size = 36, className = '' }) => (
+    <div
+        className={`flex-shrink-0 rounded-full flex items-center justify-center bg-gray-800 overflow-hidden ${className}`}
+        style={{ width: size, height: size }}
+    >
+        {avatar
+            ? <Image src={avatar} alt="" width={size} height={size} unoptimized />
+            : <Bot size={Math.round(size / 2)} className="text-white/90" />}
+    </div>
+);
+
+export default AssistantAvatar;
@@ -0,0 +1,86 @@
+// components/BackendPicker.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+import AssistantAvatar from '@/components/AssistantAvatar';
+import type { BackendSummary } from '@/types/backend';
+
+interface BackendPickerProps {
+    backends: BackendSummary[];
+    selectedId: string | null;
+    onSelect: (backendId: string) => void;
+    disabled?: boolean;
+}
+
+// ヘッダーのアシスタント (寮生活の先輩・履修アドバイザーなど) の切り替え
+const BackendPicker: React.FC<BackendPickerProps> = ({ backends, selectedId, onSelect, disabled }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const { messages: t } = useI18n();
+    const selected = backends.find((backend) => backend.id === selectedId) ?? backends[0];
+
+    // 外側のクリックと Escape で閉じる
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+            if (e.key === 'Escape') setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [isOpen]);
+
+    if (!selected) return null;
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen((open) => !open)}
+                disabled={disabled}
+                className="flex items-center gap-2 px-2 py-1 rounded-lg text-sm text-gray-700 hover:text-black hover:bg-gray-100 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-haspopup="listbox"
+                aria-expanded={isOpen}
+                aria-label={`${t.backend.select}: ${selected.name}`}
+                title={selected.description}
+            >
+                <AssistantAvatar avatar={selected.avatar} size={24} />
+                <span className="hidden sm:inline max-w-[10rem] truncate">{selected.name}</span>
+                <ChevronDown size={14} />
+            </button>
+            {isOpen && (
+                <ul
+                    className="absolute right-0 mt-1 w-72 p-1 bg-white rounded-xl border border-gray-200 shadow-lg shadow-gray-200/50 z-20"
+                    role="listbox"
+                    aria-label={t.backend.label}
+                >
+                    {backends.map((backend) => (
+                        <li key={backend.id} role="option" aria-selected={backend.id === selected.id}>
+                            <button
+                                onClick={() => {
+                                    setIsOpen(false);
+                                    if (backend.id !== selected.id) onSelect(backend.id);
+                                }}
+                                className="w-full flex items-start gap-3 p-2 rounded-lg text-left hover:bg-gray-50 transition-colors duration-200"
+                            >
+                                <AssistantAvatar avatar={backend.avatar} size={32} />
+                                <span className="flex-1 min-w-0">
+                                    <span className="block text-sm font-medium text-gray-900">{backend.name}</span>
+                                    <span className="block text-xs text-gray-500">{backend.description}</span>
+                                </span>
+                                {backend.id === selected.id && <Check size={16} className="mt-1 flex-shrink-0 text-black" />}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default BackendPicker;
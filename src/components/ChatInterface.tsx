@@ -1,65 +1,78 @@
 // components/ChatInterface.tsx
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback, ChangeEvent, KeyboardEvent } from 'react';
-import { Send, Bot, User, AlertCircle, ChevronDown, Search } from 'lucide-react';
+import React, { useState, useRef, useEffect, ChangeEvent, KeyboardEvent } from 'react';
+import { Send, Bot, AlertCircle, ChevronDown, PanelLeft, Square, Clock, Lightbulb, X, Share2, MessageSquarePlus } from 'lucide-react';
 import Image from "next/image";
+import { createSSEParser, type SSEEvent } from '@/lib/sse';
+import { applyAnswerPolicy, getAnswerPolicy } from '@/lib/answerPolicy';
+import { buildHistory, DEFAULT_HISTORY_WINDOW } from '@/lib/history';
+import { getSessionId } from '@/lib/session';
+import { debugLog } from '@/lib/debug';
+import { downloadFile } from '@/lib/download';
+import {
+    createExportFileName,
+    parseConversationExport,
+    toConversationExport,
+    toMarkdown,
+} from '@/lib/conversationExport';
+import {
+    createConversationTitle,
+    deleteConversation,
+    getConversation,
+    isConversationStoreAvailable,
+    listConversations,
+    renameConversation,
+    saveConversation,
+    setConversationShare,
+} from '@/lib/conversationStore';
+import ConversationSidebar from '@/components/ConversationSidebar';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import BackendPicker from '@/components/BackendPicker';
+import ExportMenu from '@/components/ExportMenu';
+import ShareDialog from '@/components/ShareDialog';
+import AssistantAvatar from '@/components/AssistantAvatar';
+import { useI18n } from '@/components/I18nProvider';
+import { formatMessage } from '@/lib/i18n';
+import ServiceStatusBanner from '@/components/ServiceStatusBanner';
+import SampleQuestionPanel from '@/components/SampleQuestionPanel';
+import MessageBubble from '@/components/MessageBubble';
+import type { FeedbackInput } from '@/components/FeedbackControls';
+import { selectVariant, startNewVariant } from '@/lib/variants';
+import type { Conversation, ConversationShare, HistoryMessage, Message, Source } from '@/types/chat';
+import type { FeedbackPayload } from '@/types/feedback';
+import type { ServiceStatus } from '@/types/serviceStatus';
+import type { SampleQuestion, SampleQuestionCategory } from '@/types/sampleQuestions';
+import type { BackendSummary, BackendsResponse } from '@/types/backend';
+import type { SharePayload, ShareResponse } from '@/types/share';
+import { isInputGuardCode } from '@/types/inputGuard';
+import type { ChatEmbedOptions } from '@/types/embed';
 
-interface Message {
-    id: string;
-    role: 'user' | 'assistant';
-    content: string;
-    timestamp?: Date;
-}
+const apiProxyPath = process.env.NEXT_PUBLIC_RAG_API_PROXY_PATH || '/api/generate';
+const feedbackApiPath = '/api/feedback';
+const serviceStatusApiPath = '/api/status';
+const sampleQuestionsApiPath = '/api/sample-questions';
+const backendsApiPath = '/api/backends';
+const shareApiPath = '/api/share';
+// サービスの状態を確認し直す間隔
+const SERVICE_STATUS_POLL_MS = 60000;
+// API に送る会話履歴の件数
+const historyWindow = Number(process.env.NEXT_PUBLIC_HISTORY_WINDOW) || DEFAULT_HISTORY_WINDOW;
 
-interface SampleQuestion {
-    id: string;
-    text: string;
-}
+const answerPolicy = getAnswerPolicy();
 
-const apiProxyPath = process.env.NEXT_PUBLIC_RAG_API_PROXY_PATH || '/api/generate';
+// API の JSON エラーや SSE の error イベントから作るエラー (code は機械可読なエラーコード)
+class ChatError extends Error {
+    constructor(message: string, readonly code?: string, readonly retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'ChatError';
+    }
+}
 
-// サンプル質問データ
-const sampleQuestions: SampleQuestion[] = [
-    { id: 'q1', text: '人工知能について教えてください' },
-    { id: 'q2', text: '寮生活で困ったときは誰に聞けばいい？' },
-    { id: 'q3', text: '良い睡眠をとるコツは？' },
-    { id: 'q4', text: '神山まるごと高専って？' },
-];
-
-// モノクロームのメッセージバブル
-const MessageBubble: React.FC<{ role: 'user' | 'assistant', content: string }> = ({ role, content }) => {
-    const isUser = role === 'user';
-    return (
-        <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-5 group`}>
-            <div className={`flex items-start gap-3 max-w-[80%] transition-all duration-300`}>
-                <div className={`flex-shrink-0 w-9 h-9 rounded-full flex items-center justify-center shadow-md ${
-                    isUser ? 'bg-black order-last' : 'bg-gray-800'
-                }`}>
-                    {isUser ?
-                        <User size={18} className="text-white/90" /> :
-                        <Bot size={18} className="text-white/90" />
-                    }
-                </div>
-                <div
-                    className={`px-5 py-4 rounded-2xl ${
-                        isUser
-                            ? 'bg-black text-white shadow-lg shadow-black/10'
-                            : 'bg-white text-gray-800 border-0 shadow-lg shadow-gray-200/50'
-                    }`}
-                    style={{
-                        whiteSpace: 'pre-wrap',
-                        wordBreak: 'break-word',
-                    }}
-                >
-                    <div className={`font-medium ${isUser ? 'text-white/90' : 'text-gray-900'} leading-relaxed`}>
-                        {content}
-                    </div>
-                </div>
-            </div>
-        </div>
-    );
-};
+// レート制限 (429) のエラーコード
+const rateLimitErrorCodes = ['RATE_LIMITED', 'CONCURRENCY_LIMITED'];
+// サービスが質問を受け付けていない (503) ときのエラーコード
+const serviceUnavailableErrorCodes = ['SERVICE_READ_ONLY', 'SERVICE_MAINTENANCE', 'SERVICE_CLOSED'];
 
 // モノクロームのローディングインジケーター
 const LoadingIndicator: React.FC = () => (
@@ -70,27 +83,36 @@ const LoadingIndicator: React.FC = () => (
     </div>
 );
 
-// サンプル質問タグ
-const QuestionTag: React.FC<{ question: SampleQuestion, onClick: () => void }> = ({ question, onClick }) => (
-    <button
-        onClick={onClick}
-        className="px-4 py-2 bg-white border border-gray-200 rounded-full text-sm text-gray-700 hover:bg-gray-50 hover:border-gray-300 transition-colors duration-200 shadow-sm flex items-center gap-2 whitespace-nowrap"
-    >
-        <Search size={14} />
-        {question.text}
-    </button>
-);
+interface ChatInterfaceProps {
+    embed?: ChatEmbedOptions; // 他のサイトに埋め込む (/embed) 場合の設定
+}
 
-const ChatInterface: React.FC = () => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ embed }) => {
+    const { locale, messages: t } = useI18n();
     const [messages, setMessages] = useState<Message[]>([]);
-    const [input, setInput] = useState('');
+    const [input, setInput] = useState(embed?.question ?? '');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const abortControllerRef = useRef<AbortController | null>(null);
+    const streamingMessageIdRef = useRef<string | null>(null); // 生成中の回答のメッセージID
     const inputRef = useRef<HTMLInputElement>(null);
     const [showScrollButton, setShowScrollButton] = useState(false);
     const [showSampleQuestions, setShowSampleQuestions] = useState(true);
+    const [sampleCategories, setSampleCategories] = useState<SampleQuestionCategory[]>([]);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [conversationId, setConversationId] = useState<string | null>(null);
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [cooldownUntil, setCooldownUntil] = useState<number | null>(null); // レート制限で待つ必要がある時刻
+    const [cooldownSeconds, setCooldownSeconds] = useState(0);
+    const [serviceStatus, setServiceStatus] = useState<ServiceStatus>({ state: 'open' });
+    const [backends, setBackends] = useState<BackendSummary[]>([]);
+    const [defaultBackendId, setDefaultBackendId] = useState<string | null>(null);
+    const [backendId, setBackendId] = useState<string | null>(embed?.backend ?? null); // 選択中のアシスタント
+    const [share, setShare] = useState<ConversationShare | undefined>(undefined); // 表示中の会話の共有リンク
+    const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+    // IndexedDB から読み込んだ直後のメッセージ (保存し直さないために保持)
+    const loadedMessagesRef = useRef<Message[] | null>(null);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -120,229 +142,346 @@ const ChatInterface: React.FC = () => {
         };
     }, []);
 
-    // 最初のメッセージが送信されたら、サンプル質問を非表示にする
+    // 保存済みの会話一覧を読み込む
+    useEffect(() => {
+        if (!isConversationStoreAvailable()) return;
+        listConversations()
+            .then(setConversations)
+            .catch((err) => console.error('Failed to load conversations:', err));
+    }, []);
+
+    // 回答の受信が終わるたびに会話を保存する
+    useEffect(() => {
+        if (isLoading || !conversationId || messages.length === 0 || !isConversationStoreAvailable()) return;
+        if (messages === loadedMessagesRef.current) return;
+
+        const persist = async () => {
+            const existing = await getConversation(conversationId);
+            const firstQuery = messages.find((msg) => msg.role === 'user')?.content ?? '';
+            await saveConversation({
+                ...existing, // 共有リンクなど、ここで扱わない項目を残す
+                id: conversationId,
+                title: existing?.title ?? createConversationTitle(firstQuery),
+                messages,
+                backendId: backendId ?? undefined,
+                createdAt: existing?.createdAt ?? new Date(),
+                updatedAt: new Date(),
+            });
+            setConversations(await listConversations());
+        };
+        persist().catch((err) => console.error('Failed to save conversation:', err));
+    }, [messages, isLoading, conversationId, backendId]);
+
+    // サービスの状態 (メンテナンスなど) を定期的に確認する
+    const refreshServiceStatus = async () => {
+        try {
+            const response = await fetch(serviceStatusApiPath, { cache: 'no-store' });
+            if (response.ok) setServiceStatus(await response.json());
+        } catch (err) {
+            console.error('Failed to load service status:', err);
+        }
+    };
+
+    useEffect(() => {
+        refreshServiceStatus();
+        const timer = setInterval(refreshServiceStatus, SERVICE_STATUS_POLL_MS);
+        return () => clearInterval(timer);
+    }, []);
+
+    // レート制限の残り時間を 1 秒ごとに更新する
+    useEffect(() => {
+        if (cooldownUntil === null) return;
+        const update = () => {
+            const remaining = Math.max(0, Math.ceil((cooldownUntil - Date.now()) / 1000));
+            setCooldownSeconds(remaining);
+            if (remaining === 0) setCooldownUntil(null);
+        };
+        update();
+        const timer = setInterval(update, 1000);
+        return () => clearInterval(timer);
+    }, [cooldownUntil]);
+
+    // 選択できるアシスタントを読み込む (選択中のものがなくなった場合は既定のアシスタントに戻す)
+    useEffect(() => {
+        fetch(`${backendsApiPath}?${new URLSearchParams({ locale })}`)
+            .then((response) => (response.ok ? response.json() : Promise.reject(new Error(`API Error: ${response.status}`))))
+            .then((data: BackendsResponse) => {
+                setBackends(data.backends);
+                setDefaultBackendId(data.default);
+                setBackendId((current) => {
+                    if (current && data.backends.some((backend) => backend.id === current)) return current;
+                    return data.backends.some((backend) => backend.id === data.default) ? data.default : data.backends[0]?.id ?? null;
+                });
+            })
+            .catch((err) => console.error('Failed to load backends:', err));
+    }, [locale]);
+
+    // 質問例を読み込む (対象者はページの ?audience= で切り替える。選択中のアシスタントのカテゴリだけを表示する)
+    useEffect(() => {
+        const params = new URLSearchParams({ locale });
+        const audience = new URLSearchParams(window.location.search).get('audience');
+        if (audience) params.set('audience', audience);
+        if (backendId) params.set('backend', backendId);
+        fetch(`${sampleQuestionsApiPath}?${params}`)
+            .then((response) => (response.ok ? response.json() : Promise.reject(new Error(`API Error: ${response.status}`))))
+            .then((data) => setSampleCategories(data.categories ?? []))
+            .catch((err) => console.error('Failed to load sample questions:', err));
+    }, [locale, backendId]);
+
+    // 最初のメッセージが送信されたら、サンプル質問を折りたたむ (ボタンで再び開ける)
+    const hasMessages = messages.length > 0;
     useEffect(() => {
-        if (messages.length > 0) {
+        if (hasMessages) {
             setShowSampleQuestions(false);
         }
-    }, [messages]);
+    }, [hasMessages]);
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     };
 
-    // チャットをリセットする関数
+    // 新しい会話を始める関数 (それまでの会話は保存済みのまま残る)
     const resetChat = () => {
         // 進行中のリクエストをキャンセル
         abortControllerRef.current?.abort();
         // 状態をリセット
         setMessages([]);
+        setConversationId(null);
+        setShare(undefined);
         setInput('');
         setIsLoading(false);
         setError(null);
         setShowSampleQuestions(true);
     };
 
-    // 改良されたSSEデータ処理関数 (連結 data:, 末尾 </chank> 無視, ## 以降無視対応版)
-    const processSSEData = (chunk: string, assistantMessageId: string) => {
-        let processedContent = ''; // このチャンクから抽出されたコンテンツ
-        let streamEnded = false; // ストリーム終了マーカー [DONE] or <end> を検出したか
-        let ignoreMarkerFoundInChunk = false; // このチャンク内で ## マーカーが見つかったか
-
-        // 正規表現: data: の後から次の data:, <end>, または終端までを抽出
-        const regex = /data:\s*([\s\S]*?)(?=data:|<end>|$)/g;
-        let match;
-
-        while ((match = regex.exec(chunk)) !== null) {
-            // このチャンクで既に ## が見つかっていたら、後続の data: は処理しない
-            if (ignoreMarkerFoundInChunk) {
-                break; // while ループを抜ける
-            }
+    // 会話を表示する
+    const openConversation = (conversation: Conversation) => {
+        abortControllerRef.current?.abort();
+        loadedMessagesRef.current = conversation.messages;
+        setMessages(conversation.messages);
+        setConversationId(conversation.id);
+        setShare(conversation.share);
+        // 会話で使っていたアシスタントに切り替える (使えなくなっていれば既定のアシスタント)
+        const savedBackendId = conversation.backendId ?? defaultBackendId;
+        setBackendId(backends.some((backend) => backend.id === savedBackendId) ? savedBackendId : defaultBackendId);
+        setInput('');
+        setIsLoading(false);
+        setError(null);
+    };
 
-            let extractedPart = match[1]; // data: の後の内容
+    // 保存済みの会話を開く
+    const handleSelectConversation = async (id: string) => {
+        if (id === conversationId) return;
+        try {
+            const conversation = await getConversation(id);
+            if (conversation) openConversation(conversation);
+        } catch (err) {
+            console.error('Failed to open conversation:', err);
+        }
+    };
 
-            // 末尾の "</chank>" を除去
-            if (extractedPart.trimEnd().endsWith('</chank>')) {
-                extractedPart = extractedPart.substring(0, extractedPart.lastIndexOf('</chank>'));
-            }
+    // 表示中の会話 (タイトルと作成日時は保存済みのものを使う)
+    const getCurrentConversation = (): Conversation | null => {
+        if (!conversationId || messages.length === 0) return null;
+        const saved = conversations.find((conversation) => conversation.id === conversationId);
+        const firstQuery = messages.find((msg) => msg.role === 'user')?.content ?? '';
+        return {
+            id: conversationId,
+            title: saved?.title ?? createConversationTitle(firstQuery),
+            messages,
+            backendId: backendId ?? undefined,
+            createdAt: saved?.createdAt ?? messages[0].timestamp ?? new Date(),
+            updatedAt: saved?.updatedAt ?? new Date(),
+        };
+    };
 
-            // ## マーカーをチェック
-            const ignoreMarkerIndex1 = extractedPart.indexOf('#');
-            if (ignoreMarkerIndex1 !== -1) {
-                // # が見つかった場合、それより前の部分だけを取得
-                extractedPart = extractedPart.substring(0, ignoreMarkerIndex1);
-                // このチャンクの残りの data: を無視するフラグを立てる
-                ignoreMarkerFoundInChunk = true;
-                console.log("SSE: Found '#' marker. Ignoring subsequent data in this chunk.");
-                // ## が見つかった場合、このセグメントがそのチャンクの最後の有効データとなる
-                break; // ループ終了
-            }
-            const ignoreMarkerIndex2 = extractedPart.indexOf('**');
-            if (ignoreMarkerIndex2 !== -1) {
-                // ## が見つかった場合、それより前の部分だけを取得
-                extractedPart = extractedPart.substring(0, ignoreMarkerIndex2);
-                // このチャンクの残りの data: を無視するフラグを立てる
-                ignoreMarkerFoundInChunk = true;
-                console.log("SSE: Found '**' marker. Ignoring subsequent data in this chunk.");
-                // ## が見つかった場合、このセグメントがそのチャンクの最後の有効データとなる
-                break; // ループ終了
-            }
-            const ignoreMarkerIndex3 = extractedPart.indexOf('```');
-            if (ignoreMarkerIndex3 !== -1) {
-                // ## が見つかった場合、それより前の部分だけを取得
-                extractedPart = extractedPart.substring(0, ignoreMarkerIndex3);
-                // このチャンクの残りの data: を無視するフラグを立てる
-                ignoreMarkerFoundInChunk = true;
-                console.log("SSE: Found '```' marker. Ignoring subsequent data in this chunk.");
-                // ## が見つかった場合、このセグメントがそのチャンクの最後の有効データとなる
-                break; // ループ終了
-            }
-            const ignoreMarkerIndex4 = extractedPart.indexOf('.');
-            if (ignoreMarkerIndex4 !== -1) {
-                // # が見つかった場合、それより前の部分だけを取得
-                extractedPart = extractedPart.substring(0, ignoreMarkerIndex4);
-                // このチャンクの残りの data: を無視するフラグを立てる
-                ignoreMarkerFoundInChunk = true;
-                console.log("SSE: Found '#' marker. Ignoring subsequent data in this chunk.");
-                // ## が見つかった場合、このセグメントがそのチャンクの最後の有効データとなる
-                break; // ループ終了
-            }
-            const ignoreMarkerIndex5 = extractedPart.indexOf('-');
-            if (ignoreMarkerIndex5 !== -1) {
-                // # が見つかった場合、それより前の部分だけを取得
-                extractedPart = extractedPart.substring(0, ignoreMarkerIndex5);
-                // このチャンクの残りの data: を無視するフラグを立てる
-                ignoreMarkerFoundInChunk = true;
-                console.log("SSE: Found '#' marker. Ignoring subsequent data in this chunk.");
-                // ## が見つかった場合、このセグメントがそのチャンクの最後の有効データとなる
-                break; // ループ終了
-            }
-　　　　　　　const ignoreMarkerIndex6 = extractedPart.indexOf('まとめ');
-            if (ignoreMarkerIndex6 !== -1) {
-                // # が見つかった場合、それより前の部分だけを取得
-                extractedPart = extractedPart.substring(0, ignoreMarkerIndex6);
-                // このチャンクの残りの data: を無視するフラグを立てる
-                ignoreMarkerFoundInChunk = true;
-                console.log("SSE: Found '#' marker. Ignoring subsequent data in this chunk.");
-                // ## が見つかった場合、このセグメントがそのチャンクの最後の有効データとなる
-                break; // ループ終了
-            }
-　　　　　　　const ignoreMarkerIndex7 = extractedPart.indexOf('おわり');
-            if (ignoreMarkerIndex7 !== -1) {
-                // # が見つかった場合、それより前の部分だけを取得
-                extractedPart = extractedPart.substring(0, ignoreMarkerIndex7);
-                // このチャンクの残りの data: を無視するフラグを立てる
-                ignoreMarkerFoundInChunk = true;
-                console.log("SSE: Found '#' marker. Ignoring subsequent data in this chunk.");
-                // ## が見つかった場合、このセグメントがそのチャンクの最後の有効データとなる
-                break; // ループ終了
-            }
+    const handleExportMarkdown = () => {
+        const conversation = getCurrentConversation();
+        if (!conversation) return;
+        const markdown = toMarkdown(conversation, { messages: t, locale, backendName: selectedBackend?.name });
+        downloadFile(markdown, createExportFileName(conversation, 'md'), 'text/markdown;charset=utf-8');
+    };
 
-            // 抽出・加工したデータの前後の空白を除去
-            const dataPart = extractedPart.trim();
+    const handleExportJson = () => {
+        const conversation = getCurrentConversation();
+        if (!conversation) return;
+        const json = JSON.stringify(toConversationExport(conversation), null, 2);
+        downloadFile(json, createExportFileName(conversation, 'json'), 'application/json');
+    };
 
-            // 終了マーカー [DONE] をチェック
-            if (dataPart === '[DONE]') {
-                console.log("SSE: Received [DONE] marker.");
-                streamEnded = true;
-                break; // ループ終了
-            }
-            // <end> マーカーをチェック
-            if (dataPart === '<end>') {
-                console.log("SSE: Received <end> marker.");
-                streamEnded = true;
-                break; // ループ終了
-            }
+    // 印刷用の画面は保存済みの会話を読むため、別タブで開く
+    const handlePrint = () => {
+        if (!conversationId) return;
+        window.open(`/print/${encodeURIComponent(conversationId)}`, '_blank', 'noopener');
+    };
 
-            // データ部分が空文字列でない場合のみ追加
-            if (dataPart) {
-                processedContent += dataPart;
-            }
+    // 表示中の会話のスナップショットを共有リンクとして保存する (失敗した回答は含めない)
+    const handleCreateShare = async (expiresInDays?: number) => {
+        const conversation = getCurrentConversation();
+        if (!conversation) return;
+        const payload: SharePayload = {
+            title: conversation.title,
+            messages: conversation.messages
+                .filter((msg) => !msg.isError && msg.content.trim() !== '')
+                .map(({ id, role, content, timestamp, sources }) => ({ id, role, content, timestamp: timestamp?.toISOString(), sources })),
+            backendId: conversation.backendId,
+            expiresInDays,
+        };
+        const response = await fetch(shareApiPath, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+        });
+        if (!response.ok) {
+            throw new Error(`Share API Error: ${response.status} ${response.statusText}`);
+        }
+        const data: ShareResponse = await response.json();
+        const created: ConversationShare = {
+            id: data.id,
+            url: new URL(data.url, window.location.origin).href,
+            revokeToken: data.revokeToken,
+            createdAt: new Date(),
+            expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+        };
+        setShare(created);
+        if (isConversationStoreAvailable()) await setConversationShare(conversation.id, created);
+    };
 
-            // ignoreMarkerFoundInChunkがtrueになった場合、次のループの開始時に break する
+    // 共有を停止する (すでに削除されている場合も停止済みとして扱う)
+    const handleRevokeShare = async () => {
+        if (!share || !conversationId) return;
+        const response = await fetch(`${shareApiPath}/${share.id}`, {
+            method: 'DELETE',
+            headers: { Authorization: `Bearer ${share.revokeToken}` },
+        });
+        if (!response.ok && response.status !== 404) {
+            throw new Error(`Share API Error: ${response.status} ${response.statusText}`);
         }
+        setShare(undefined);
+        if (isConversationStoreAvailable()) await setConversationShare(conversationId, undefined);
+    };
 
-        // <end> が独立して存在する場合のチェック (正規表現で data: の一部としてマッチしなかった場合)
-        // かつ、まだストリーム終了と判定されておらず、##も見つかっていない場合
-        if (!streamEnded && !ignoreMarkerFoundInChunk && chunk.includes('<end>')) {
-            const trimmedChunkEnd = chunk.trimEnd();
-            if (trimmedChunkEnd.endsWith('<end>') || trimmedChunkEnd.endsWith('<end></chank>')) {
-                console.log("SSE: Detected <end> marker at the end of the chunk.");
-                streamEnded = true;
+    // 書き出した JSON から会話を復元して開く (同じ ID の会話があれば別の会話として保存する)
+    const handleImport = async (file: File) => {
+        const result = parseConversationExport(await file.text());
+        if (!result.ok) {
+            setError(formatMessage(t.export.importFailed, { error: result.error }));
+            return;
+        }
+        let conversation: Conversation = { ...result.conversation, updatedAt: new Date() };
+        // 共有リンクは書き出さないため、読み込んだ会話には付かない
+        try {
+            if (isConversationStoreAvailable()) {
+                if (await getConversation(conversation.id)) {
+                    conversation = { ...conversation, id: `conversation-${Date.now()}` };
+                }
+                await saveConversation(conversation);
+                setConversations(await listConversations());
             }
+        } catch (err) {
+            console.error('Failed to save imported conversation:', err);
         }
+        openConversation(conversation);
+    };
 
-        // event: error の処理
-        // ## が見つかる前にエラーイベントが来た場合のみ考慮する（あるいは要件に応じて変更）
-        if (chunk.includes('event: error') && !ignoreMarkerFoundInChunk) {
-            console.warn("Chunk contains 'event: error'. Parsing might be incomplete if mixed with concatenated 'data:'.");
-            // 必要に応じてエラー処理を追加
-            // 例: エラーメッセージを抽出し、handleErrorを呼び出す
-        }
+    // アシスタントを切り替える (会話中なら、その会話のアシスタントとして保存し直す)
+    const handleSelectBackend = (id: string) => {
+        if (isLoading) return;
+        loadedMessagesRef.current = null;
+        setBackendId(id);
+    };
 
-        // 処理されたコンテンツ（## より前の部分を含む）が存在する場合、メッセージを更新
-        if (processedContent) {
-            setMessages((prev) =>
-                prev.map((msg) =>
-                    msg.id === assistantMessageId
-                        ? { ...msg, content: msg.content + processedContent }
-                        : msg
-                )
-            );
+    const handleRenameConversation = async (id: string, title: string) => {
+        try {
+            await renameConversation(id, title);
+            setConversations(await listConversations());
+        } catch (err) {
+            console.error('Failed to rename conversation:', err);
         }
+    };
 
-        // ストリーム終了処理
-        if (streamEnded) {
-            console.log("SSE stream processing finished based on marker ([DONE] or <end>).");
-            // 必要ならローディング解除などの処理
-            // setIsLoading(false);
-        } else if (ignoreMarkerFoundInChunk) {
-            console.log("SSE stream processing for subsequent chunks might be affected or halted if '##' indicates full stop.");
-            // ## がストリーム全体の終了を意味する場合、ここでローディング解除や接続切断の処理を行う
-            // 例: setIsLoading(false);
-            // 例: closeSSEConnection();
+    const handleDeleteConversation = async (id: string) => {
+        try {
+            await deleteConversation(id);
+            setConversations(await listConversations());
+            if (id === conversationId) resetChat();
+        } catch (err) {
+            console.error('Failed to delete conversation:', err);
         }
     };
 
-// エラーハンドリング関数 (必要に応じて定義)
-// const handleError = (errorData: string, assistantMessageId: string) => { ... };
+    // 受信済みの回答全文に後処理ポリシーを適用してアシスタントメッセージを更新する
+    const updateAnswer = (assistantMessageId: string, rawAnswer: string) => {
+        const { text, applied } = applyAnswerPolicy(rawAnswer, answerPolicy);
+        setMessages((prev) =>
+            prev.map((msg) =>
+                msg.id === assistantMessageId
+                    ? { ...msg, content: text, appliedRules: applied }
+                    : msg
+            )
+        );
+    };
 
+    // 回答の出典を保存する
+    const setSources = (assistantMessageId: string, sources: Source[]) => {
+        setMessages((prev) =>
+            prev.map((msg) =>
+                msg.id === assistantMessageId ? { ...msg, sources } : msg
+            )
+        );
+    };
 
-    const handleSubmit = useCallback(async (query: string) => {
-        if (!query.trim() || isLoading) return;
+    // 次の質問の候補を保存する
+    const setSuggestions = (assistantMessageId: string, suggestions: string[]) => {
+        setMessages((prev) =>
+            prev.map((msg) =>
+                msg.id === assistantMessageId ? { ...msg, suggestions } : msg
+            )
+        );
+    };
 
+    // 質問を送信し、回答を assistantMessageId のメッセージにストリーミングで書き込む
+    // bypassCache の場合はサーバーの回答キャッシュを使わずに新しい回答を作らせる (再生成)
+    // サーバーの検査で質問が止められた場合は onRejected で会話を送信前に戻す
+    const streamAnswer = async (
+        query: string,
+        history: HistoryMessage[],
+        assistantMessageId: string,
+        bypassCache = false,
+        onRejected?: () => void,
+    ) => {
         setIsLoading(true);
         setError(null);
         abortControllerRef.current?.abort();
-        abortControllerRef.current = new AbortController();
-
-        const userMessage: Message = {
-            id: `user-${Date.now()}`,
-            role: 'user',
-            content: query,
-            timestamp: new Date()
-        };
-        const assistantMessageId = `assistant-${Date.now()}`;
-        setMessages((prev) => [
-            ...prev,
-            userMessage,
-            { id: assistantMessageId, role: 'assistant', content: '', timestamp: new Date() }
-        ]);
-        setInput('');
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        streamingMessageIdRef.current = assistantMessageId;
+        embed?.onEvent({ type: 'question' });
 
         try {
             const response = await fetch(apiProxyPath, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ query }),
-                signal: abortControllerRef.current.signal,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Session-Id': getSessionId(),
+                    ...(bypassCache ? { 'Cache-Control': 'no-cache' } : {}),
+                },
+                // 回答を選択中の言語で返すよう、RAG API に言語を伝える
+                body: JSON.stringify({ query, history, locale, backend: backendId ?? undefined }),
+                signal: abortController.signal,
             });
+            // サーバーのログと突き合わせるための ID
+            debugLog(`Request ID: ${response.headers.get('X-Request-Id')} (X-Cache: ${response.headers.get('X-Cache')})`);
 
             if (!response.ok) {
                 let errorBody = `API Error: ${response.status} ${response.statusText}`;
+                let errorCode: string | undefined;
+                const retryAfterHeader = response.headers.get('Retry-After');
+                const retryAfterSeconds = retryAfterHeader ? Number(retryAfterHeader) : undefined;
                 try {
                     const errorJson = await response.json();
                     errorBody = errorJson.error || errorJson.message || JSON.stringify(errorJson);
+                    errorCode = errorJson.code;
                 } catch {
                     try {
                         const errorText = await response.text();
@@ -351,7 +490,7 @@ const ChatInterface: React.FC = () => {
                         console.error("Failed to read error response text:", textErr);
                     }
                 }
-                throw new Error(errorBody);
+                throw new ChatError(errorBody, errorCode, retryAfterSeconds);
             }
 
             if (!response.body) {
@@ -360,46 +499,248 @@ const ChatInterface: React.FC = () => {
 
             const reader = response.body.getReader();
             const decoder = new TextDecoder();
+            const parser = createSSEParser();
+            let rawAnswer = ''; // ポリシー適用前の回答全文
+
+            // パーサーから受け取ったイベントを処理する。ストリームを終了すべきなら true を返す
+            const handleEvents = (events: SSEEvent[]) => {
+                for (const event of events) {
+                    if (event.type === 'done') {
+                        debugLog("SSE: Received end marker.");
+                        return true;
+                    }
+                    if (event.type === 'error') {
+                        throw new ChatError(event.data || 'Stream error', event.code);
+                    }
+                    if (event.type === 'sources') {
+                        setSources(assistantMessageId, event.sources);
+                        continue;
+                    }
+                    if (event.type === 'suggestions') {
+                        setSuggestions(assistantMessageId, event.suggestions);
+                        continue;
+                    }
+                    rawAnswer += event.data;
+                }
+                if (events.length > 0) updateAnswer(assistantMessageId, rawAnswer);
+                return false;
+            };
+
             while (true) {
-                if (abortControllerRef.current?.signal.aborted) {
-                    console.log("Stream reading aborted by signal.");
-                    setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId));
+                // 停止された場合は受信済みの回答を残したまま読み取りを終える
+                if (abortController.signal.aborted) {
+                    debugLog("Stream reading aborted by signal.");
                     break;
                 }
 
                 const { value, done } = await reader.read();
 
                 if (done) {
-                    console.log("Stream finished.");
-                    setIsLoading(false);
-                    abortControllerRef.current = null;
+                    handleEvents(parser.flush());
+                    debugLog("Stream finished.");
                     break;
                 }
 
                 const chunk = decoder.decode(value, { stream: true });
-                processSSEData(chunk, assistantMessageId);
+                if (handleEvents(parser.feed(chunk))) {
+                    await reader.cancel();
+                    debugLog("Stream finished.");
+                    break;
+                }
             }
+            embed?.onEvent({ type: 'answer', status: abortController.signal.aborted ? 'stopped' : 'completed' });
 
         } catch (err) {
             if (err instanceof Error && err.name === 'AbortError') {
-                console.log('Fetch aborted.');
+                debugLog('Fetch aborted.');
                 setError(null);
+                embed?.onEvent({ type: 'answer', status: 'stopped' });
+            } else if (err instanceof ChatError && isInputGuardCode(err.code)) {
+                // 個人情報などで止められた質問はエラーの吹き出しを作らず、理由だけを表示する
+                debugLog(`Query rejected by input guard: ${err.code}`);
+                setError(err.message);
+                onRejected?.();
+                embed?.onEvent({ type: 'answer', status: 'rejected', code: err.code });
             } else {
                 console.error('Chat fetch/stream error:', err);
-                const errorMessage = err instanceof Error ? err.message : String(err);
-                setError(errorMessage);
+                // 受信済みの回答は残し、エラーはメッセージ内に表示する
+                const messageError = {
+                    message: err instanceof Error ? err.message : String(err),
+                    code: err instanceof ChatError ? err.code : undefined,
+                };
+                // レート制限の場合は待ち時間を表示し、その間は送信できないようにする
+                if (err instanceof ChatError && err.code && rateLimitErrorCodes.includes(err.code)) {
+                    messageError.message = t.chat.rateLimited;
+                    setCooldownUntil(Date.now() + (err.retryAfterSeconds || 10) * 1000);
+                }
+                // 送信後にメンテナンスなどに切り替わった場合はバナーと入力欄に反映する
+                if (err instanceof ChatError && err.code && serviceUnavailableErrorCodes.includes(err.code)) {
+                    refreshServiceStatus();
+                }
                 setMessages(prev => prev.map(msg =>
-                    msg.id === assistantMessageId ? { ...msg, content: `[エラーが発生しました: ${errorMessage}]` } : msg
+                    msg.id === assistantMessageId ? { ...msg, isError: true, error: messageError } : msg
                 ));
+                embed?.onEvent({ type: 'answer', status: 'error', code: messageError.code });
             }
         } finally {
-            setIsLoading(false);
-            if (abortControllerRef.current && !abortControllerRef.current.signal.aborted) {
+            // 後から始まった別のストリームの状態は変更しない
+            if (abortControllerRef.current === abortController) {
                 abortControllerRef.current = null;
+                streamingMessageIdRef.current = null;
+                setIsLoading(false);
+                inputRef.current?.focus();
             }
-            inputRef.current?.focus();
         }
-    }, [isLoading]);
+    };
+
+    const selectedBackend = backends.find((backend) => backend.id === backendId);
+    const isCoolingDown = cooldownSeconds > 0;
+    const isAcceptingQueries = serviceStatus.state === 'open';
+    // レート制限の待ち時間中やメンテナンス中などは送信できない
+    const isSendingBlocked = isCoolingDown || !isAcceptingQueries;
+
+    const handleSubmit = async (query: string) => {
+        if (!query.trim() || isLoading || isSendingBlocked) return;
+
+        // 今回の質問より前の会話を文脈として送る
+        const history = buildHistory(messages, historyWindow);
+
+        // 最初の質問で会話を作成する
+        if (!conversationId) {
+            setConversationId(`conversation-${Date.now()}`);
+        }
+
+        const userMessage: Message = {
+            id: `user-${Date.now()}`,
+            role: 'user',
+            content: query,
+            timestamp: new Date()
+        };
+        const assistantMessageId = `assistant-${Date.now()}`;
+        setMessages((prev) => [
+            ...prev,
+            userMessage,
+            { id: assistantMessageId, role: 'assistant', content: '', timestamp: new Date() }
+        ]);
+        setInput('');
+
+        // 止められた場合は質問を入力欄に戻して直せるようにする
+        const previousMessages = messages;
+        await streamAnswer(query, history, assistantMessageId, false, () => {
+            setMessages(previousMessages);
+            setInput(query);
+        });
+    };
+
+    // 生成中の回答を停止する (受信済みの部分は残す)
+    const handleStop = () => {
+        const streamingMessageId = streamingMessageIdRef.current;
+        abortControllerRef.current?.abort();
+        if (streamingMessageId) {
+            setMessages(prev => prev.map(msg =>
+                msg.id === streamingMessageId ? { ...msg, isStopped: true } : msg
+            ));
+        }
+    };
+
+    // 同じ質問で回答を作り直す
+    // 再生成ではそれまでの回答を候補として残し、失敗した回答の再試行では置き換える
+    const handleRegenerate = async (assistantMessageId: string, keepCurrent = true) => {
+        if (isLoading || isSendingBlocked) return;
+        const index = messages.findIndex((msg) => msg.id === assistantMessageId);
+        const userMessage = messages[index - 1];
+        if (index < 1 || userMessage.role !== 'user') return;
+
+        const history = buildHistory(messages.slice(0, index - 1), historyWindow);
+        setMessages(prev => prev.map(msg => {
+            if (msg.id !== assistantMessageId) return msg;
+            if (keepCurrent) return startNewVariant(msg, userMessage.content, userMessage.content);
+            return {
+                ...msg,
+                content: '',
+                timestamp: new Date(),
+                appliedRules: undefined,
+                sources: undefined,
+                suggestions: undefined,
+                isError: undefined,
+                error: undefined,
+                isStopped: undefined,
+                feedback: undefined,
+            };
+        }));
+        const previousMessages = messages;
+        await streamAnswer(userMessage.content, history, assistantMessageId, true, () => setMessages(previousMessages));
+    };
+
+    // 質問を編集して、その時点から会話をやり直す
+    const handleEditMessage = async (userMessageId: string, query: string) => {
+        if (!query.trim() || isLoading || isSendingBlocked) return;
+        const index = messages.findIndex((msg) => msg.id === userMessageId);
+        if (index === -1) return;
+
+        const userMessage = messages[index];
+        const nextMessage = messages[index + 1];
+        const assistantMessage: Message = nextMessage?.role === 'assistant'
+            ? startNewVariant(nextMessage, userMessage.content, query)
+            : { id: `assistant-${Date.now()}`, role: 'assistant', content: '', timestamp: new Date() };
+
+        const history = buildHistory(messages.slice(0, index), historyWindow);
+        setMessages([
+            ...messages.slice(0, index),
+            { ...userMessage, content: query, timestamp: new Date() },
+            assistantMessage,
+        ]);
+        const previousMessages = messages;
+        await streamAnswer(query, history, assistantMessage.id, false, () => setMessages(previousMessages));
+    };
+
+    // 回答の候補を切り替える (候補を生成した質問も合わせて表示する)
+    const handleSelectVariant = (assistantMessageId: string, variantIndex: number) => {
+        if (isLoading) return;
+        const index = messages.findIndex((msg) => msg.id === assistantMessageId);
+        const userMessage = messages[index - 1];
+        if (index < 1 || userMessage.role !== 'user') return;
+
+        const result = selectVariant(messages[index], userMessage.content, variantIndex);
+        if (!result) return;
+        setMessages(prev => prev.map(msg => {
+            if (msg.id === assistantMessageId) return result.message;
+            if (msg.id === userMessage.id) return { ...msg, content: result.query };
+            return msg;
+        }));
+    };
+
+    // 回答へのフィードバックを送信し、送信済みとしてメッセージに記録する
+    const handleSubmitFeedback = async (assistantMessageId: string, input: FeedbackInput) => {
+        const index = messages.findIndex((msg) => msg.id === assistantMessageId);
+        const assistantMessage = messages[index];
+        const userMessage = messages[index - 1];
+        if (!assistantMessage) return;
+
+        const payload: FeedbackPayload = {
+            ...input,
+            query: userMessage?.role === 'user' ? userMessage.content : '',
+            answer: assistantMessage.content,
+            messageId: assistantMessage.id,
+            queryMessageId: userMessage?.role === 'user' ? userMessage.id : undefined,
+            conversationId: conversationId ?? undefined,
+            sources: assistantMessage.sources,
+        };
+        const response = await fetch(feedbackApiPath, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+        });
+        if (!response.ok) {
+            throw new Error(`Feedback API Error: ${response.status} ${response.statusText}`);
+        }
+
+        setMessages(prev => prev.map(msg =>
+            msg.id === assistantMessageId
+                ? { ...msg, feedback: { rating: input.rating, reason: input.reason, submittedAt: new Date() } }
+                : msg
+        ));
+    };
 
     const handleFormSubmit = (e: React.FormEvent) => {
         e.preventDefault();
@@ -417,136 +758,307 @@ const ChatInterface: React.FC = () => {
         }
     };
 
+    // 質問例はそのまま送信する
     const handleSampleQuestionClick = (question: SampleQuestion) => {
-        setInput(question.text);
-        inputRef.current?.focus();
+        setShowSampleQuestions(false);
+        handleSubmit(question.text);
     };
 
     return (
-        <div className="flex flex-col h-screen bg-gray-50">
-            {/* モノクロームヘッダー */}
-            <header className="bg-white shadow-sm sticky top-0 z-10 border-b border-gray-200">
-                <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
-                    <div className="flex justify-between items-center py-4 md:justify-start md:space-x-10">
-                        <div className="flex justify-start lg:w-0 lg:flex-1">
-                            <h1
-                                className="text-2xl font-bold text-black flex items-center cursor-pointer"
-                                onClick={resetChat}
-                            >
-                                <div className="p-1.5 bg-black rounded-lg shadow-lg shadow-black/10 mr-3">
-                                    <Bot size={24} className="text-white"/>
-                                </div>
-                                SenpaiChat
+        <div className="flex h-screen bg-gray-50">
+            {!embed && (
+                <ConversationSidebar
+                    conversations={conversations}
+                    activeConversationId={conversationId}
+                    isOpen={isSidebarOpen}
+                    onSelect={handleSelectConversation}
+                    onNewConversation={resetChat}
+                    onRename={handleRenameConversation}
+                    onDelete={handleDeleteConversation}
+                />
+            )}
+
+            <div className="flex-1 flex flex-col min-w-0 relative">
+                {embed ? (
+                    // 埋め込み用の小さいヘッダー (会話一覧・共有・書き出しは表示しない)
+                    <header className={`sticky top-0 z-10 border-b ${embed.theme === 'dark' ? 'bg-black text-white border-black' : 'bg-white text-black border-gray-200'}`}>
+                        <div className="flex items-center justify-between gap-2 px-4 py-3">
+                            <h1 className="text-lg font-bold flex items-center gap-2 min-w-0">
+                                <Bot size={20} className="flex-shrink-0" />
+                                <span className="truncate">{selectedBackend?.name ?? 'SenpaiChat'}</span>
                             </h1>
+                            <div className="flex items-center gap-1">
+                                {/* アシスタントを指定して埋め込んだ場合は切り替えを表示しない */}
+                                {!embed.backend && backends.length > 1 && (
+                                    <BackendPicker
+                                        backends={backends}
+                                        selectedId={backendId}
+                                        onSelect={handleSelectBackend}
+                                        disabled={isLoading}
+                                    />
+                                )}
+                                <button
+                                    onClick={resetChat}
+                                    className={`p-2 rounded-lg transition-colors duration-200 ${embed.theme === 'dark' ? 'hover:bg-white/10' : 'text-gray-600 hover:text-black hover:bg-gray-100'}`}
+                                    aria-label={t.sidebar.newConversation}
+                                    title={t.sidebar.newConversation}
+                                >
+                                    <MessageSquarePlus size={18} />
+                                </button>
+                                <button
+                                    onClick={() => embed.onEvent({ type: 'close' })}
+                                    className={`p-2 rounded-lg transition-colors duration-200 ${embed.theme === 'dark' ? 'hover:bg-white/10' : 'text-gray-600 hover:text-black hover:bg-gray-100'}`}
+                                    aria-label={t.common.close}
+                                    title={t.common.close}
+                                >
+                                    <X size={18} />
+                                </button>
+                            </div>
                         </div>
-                        <Image src="https://kamiyama.ac.jp/img/common/logo.svg" alt="高専ロゴ" width={90} height={50} />
-                    </div>
-                </div>
-            </header>
-
-            {/* メインコンテンツエリア */}
-            <div className="flex-1 flex flex-col items-center w-full overflow-hidden relative">
-                <div className="flex-1 overflow-y-auto w-full max-w-4xl px-4 lg:px-0 pt-8 pb-32 scroll-smooth">
-                    {messages.length === 0 && (
-                        <div className="flex items-center justify-center h-full">
-                            <div className="text-center p-8 max-w-lg rounded-2xl bg-white shadow-xl border border-gray-100">
-                                <div className="mx-auto w-16 h-16 mb-4 bg-black rounded-full flex items-center justify-center shadow-lg shadow-black/10">
-                                    <Bot size={32} className="text-white" />
+                    </header>
+                ) : (
+                    // モノクロームヘッダー
+                    <header className="bg-white shadow-sm sticky top-0 z-10 border-b border-gray-200">
+                        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+                            <div className="flex justify-between items-center py-4 md:justify-start md:space-x-10">
+                                <div className="flex justify-start items-center gap-3 lg:w-0 lg:flex-1">
+                                    <button
+                                        onClick={() => setIsSidebarOpen((open) => !open)}
+                                        className="p-2 rounded-lg text-gray-600 hover:text-black hover:bg-gray-100 transition-colors duration-200"
+                                        aria-label={isSidebarOpen ? t.chat.closeSidebar : t.chat.openSidebar}
+                                        aria-expanded={isSidebarOpen}
+                                    >
+                                        <PanelLeft size={20} />
+                                    </button>
+                                    <h1
+                                        className="text-2xl font-bold text-black flex items-center cursor-pointer"
+                                        onClick={resetChat}
+                                    >
+                                        <div className="p-1.5 bg-black rounded-lg shadow-lg shadow-black/10 mr-3">
+                                            <Bot size={24} className="text-white"/>
+                                        </div>
+                                        SenpaiChat
+                                    </h1>
+                                </div>
+                                <div className="flex items-center gap-4">
+                                    <button
+                                        onClick={() => setIsShareDialogOpen(true)}
+                                        disabled={!hasMessages || isLoading}
+                                        className="p-2 rounded-lg text-gray-600 hover:text-black hover:bg-gray-100 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        aria-label={t.share.button}
+                                        title={t.share.button}
+                                    >
+                                        <Share2 size={18} />
+                                    </button>
+                                    <ExportMenu
+                                        canExport={hasMessages && !isLoading}
+                                        canPrint={isConversationStoreAvailable()}
+                                        onExportMarkdown={handleExportMarkdown}
+                                        onExportJson={handleExportJson}
+                                        onPrint={handlePrint}
+                                        onImport={handleImport}
+                                        disabled={isLoading}
+                                    />
+                                    {backends.length > 1 && (
+                                        <BackendPicker
+                                            backends={backends}
+                                            selectedId={backendId}
+                                            onSelect={handleSelectBackend}
+                                            disabled={isLoading}
+                                        />
+                                    )}
+                                    <LocaleSwitcher />
+                                    <Image src="https://kamiyama.ac.jp/img/common/logo.svg" alt={t.chat.logoAlt} width={90} height={50} />
                                 </div>
-                                <h2 className="text-2xl font-semibold text-gray-800 mb-3">SenpaiChatへようこそ</h2>
-                                <p className="text-gray-600 mb-4">質問や会話を始めましょう。AI先輩があなたをサポートします。</p>
-                                <p className="text-red-600">SenpaiChatはサービス終了しました。長らくのご愛用ありがとうございました。</p>
                             </div>
                         </div>
-                    )}
-
-                    {messages.map((msg) => (
-                        <MessageBubble key={msg.id} role={msg.role} content={msg.content} />
-                    ))}
+                    </header>
+                )}
 
-                    {isLoading && messages[messages.length - 1]?.role === 'assistant' && messages[messages.length - 1]?.content === '' && (
-                        <div className="flex justify-start mb-5">
-                            <div className="flex items-start gap-3 max-w-[80%]">
-                                <div className="flex-shrink-0 w-9 h-9 rounded-full flex items-center justify-center shadow-md bg-gray-800">
-                                    <Bot size={18} className="text-white/90" />
+                {/* メインコンテンツエリア */}
+                <div className="flex-1 flex flex-col items-center w-full overflow-hidden relative">
+                    <div className="flex-1 overflow-y-auto w-full max-w-4xl px-4 lg:px-0 pt-8 pb-32 scroll-smooth">
+                        {messages.length === 0 && (
+                            <div className="flex items-center justify-center h-full">
+                                <div className="text-center p-8 max-w-lg rounded-2xl bg-white shadow-xl border border-gray-100">
+                                    <AssistantAvatar avatar={selectedBackend?.avatar} size={64} className="mx-auto mb-4 shadow-lg shadow-black/10" />
+                                    <h2 className="text-2xl font-semibold text-gray-800 mb-3">{t.chat.welcomeTitle}</h2>
+                                    <p className="text-gray-600">{t.chat.welcomeBody}</p>
+                                    {selectedBackend && backends.length > 1 && (
+                                        <p className="mt-3 text-sm text-gray-500">
+                                            <span className="font-medium text-gray-700">{selectedBackend.name}</span>: {selectedBackend.description}
+                                        </p>
+                                    )}
                                 </div>
-                                <div className="px-5 py-4 rounded-2xl shadow-lg bg-white text-gray-800">
-                                    <LoadingIndicator />
+                            </div>
+                        )}
+
+                        {messages.map((msg, index) => (
+                            <MessageBubble
+                                key={msg.id}
+                                role={msg.role}
+                                content={msg.content}
+                                sources={msg.sources}
+                                appliedRules={msg.appliedRules}
+                                isStopped={msg.isStopped}
+                                error={msg.error}
+                                onRetry={!isLoading && !isSendingBlocked && msg.error && index === messages.length - 1
+                                    ? () => handleRegenerate(msg.id, false)
+                                    : undefined}
+                                variantIndex={msg.variantIndex}
+                                variantCount={msg.variants?.length}
+                                onSelectVariant={isLoading ? undefined : (variantIndex) => handleSelectVariant(msg.id, variantIndex)}
+                                onRegenerate={!isLoading && msg.role === 'assistant' && index === messages.length - 1
+                                    ? () => handleRegenerate(msg.id)
+                                    : undefined}
+                                onEdit={!isLoading && msg.role === 'user'
+                                    ? (content) => handleEditMessage(msg.id, content)
+                                    : undefined}
+                                feedback={msg.feedback}
+                                // 生成中・失敗した回答は評価の対象にしない
+                                onSubmitFeedback={msg.role === 'assistant' && msg.content && !msg.isError
+                                    && !(isLoading && index === messages.length - 1)
+                                    ? (input) => handleSubmitFeedback(msg.id, input)
+                                    : undefined}
+                                suggestions={msg.suggestions}
+                                // 次の質問の候補は最新の回答の下にだけ表示する
+                                onSelectSuggestion={!isLoading && !isSendingBlocked && index === messages.length - 1
+                                    ? (suggestion) => handleSubmit(suggestion)
+                                    : undefined}
+                                avatar={selectedBackend?.avatar}
+                            />
+                        ))}
+
+                        {isLoading && messages[messages.length - 1]?.role === 'assistant' && messages[messages.length - 1]?.content === '' && (
+                            <div className="flex justify-start mb-5">
+                                <div className="flex items-start gap-3 max-w-[80%]">
+                                    <AssistantAvatar avatar={selectedBackend?.avatar} className="shadow-md" />
+                                    <div className="px-5 py-4 rounded-2xl shadow-lg bg-white text-gray-800">
+                                        <LoadingIndicator />
+                                    </div>
                                 </div>
                             </div>
-                        </div>
-                    )}
+                        )}
 
-                    {error && !isLoading && (
-                        <div className="mt-4 p-5 text-sm text-red-700 bg-red-50 rounded-xl border border-red-200 flex items-center gap-3 shadow-md" role="alert">
-                            <AlertCircle size={20} className="flex-shrink-0 text-red-500" />
-                            <div>
-                                <span className="font-medium">エラー:</span> {error}
+                        {error && !isLoading && (
+                            <div className="mt-4 p-5 text-sm text-red-700 bg-red-50 rounded-xl border border-red-200 flex items-center gap-3 shadow-md" role="alert">
+                                <AlertCircle size={20} className="flex-shrink-0 text-red-500" />
+                                <div>
+                                    <span className="font-medium">{t.chat.errorPrefix}</span> {error}
+                                </div>
                             </div>
-                        </div>
-                    )}
+                        )}
+
+                        <div ref={messagesEndRef} />
+                    </div>
 
-                    <div ref={messagesEndRef} />
+                    {/* スクロールボタン */}
+                    {showScrollButton && (
+                        <button
+                            onClick={scrollToBottom}
+                            className="absolute bottom-32 right-6 md:right-8 p-3 rounded-full bg-white shadow-lg border border-gray-100 text-gray-600 hover:text-black transition-all duration-200 hover:shadow-xl"
+                            aria-label={t.chat.scrollToBottom}
+                        >
+                            <ChevronDown size={20} />
+                        </button>
+                    )}
                 </div>
 
-                {/* スクロールボタン */}
-                {showScrollButton && (
-                    <button
-                        onClick={scrollToBottom}
-                        className="absolute bottom-32 right-6 md:right-8 p-3 rounded-full bg-white shadow-lg border border-gray-100 text-gray-600 hover:text-black transition-all duration-200 hover:shadow-xl"
-                        aria-label="最下部にスクロール"
-                    >
-                        <ChevronDown size={20} />
-                    </button>
-                )}
-            </div>
+                {/* 入力エリア */}
+                <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-gray-50 to-transparent pb-6 pt-12 pointer-events-none">
+                    <div className="max-w-4xl mx-auto px-4 pointer-events-auto">
+                        {/* メンテナンス・サービス終了などのお知らせ */}
+                        <ServiceStatusBanner status={serviceStatus} />
+
+                        {/* レート制限の待ち時間 */}
+                        {isCoolingDown && (
+                            <div className="mb-3 px-4 py-2.5 text-sm text-gray-700 bg-white rounded-xl border border-gray-200 shadow-md flex items-center justify-center gap-2" role="status">
+                                <Clock size={16} className="flex-shrink-0 text-gray-500" />
+                                {formatMessage(t.chat.cooldown, { seconds: cooldownSeconds })}
+                            </div>
+                        )}
 
-            {/* 入力エリア */}
-            <div className="fixed bottom-0 left-0 right-0 bg-gradient-to-t from-gray-50 to-transparent pb-6 pt-12 pointer-events-none">
-                <div className="max-w-4xl mx-auto px-4 pointer-events-auto">
-                    {/* サンプル質問タグ */}
-                    {showSampleQuestions && (
-                        <div className="mb-4 flex flex-wrap gap-2 justify-center">
-                            {sampleQuestions.map(question => (
-                                <QuestionTag
-                                    key={question.id}
-                                    question={question}
-                                    onClick={() => handleSampleQuestionClick(question)}
+                        {/* サンプル質問タグ */}
+                        {isAcceptingQueries && sampleCategories.length > 0 && (showSampleQuestions ? (
+                            <div className="mb-4 relative">
+                                <SampleQuestionPanel
+                                    categories={sampleCategories}
+                                    onSelect={handleSampleQuestionClick}
+                                    disabled={isLoading || isSendingBlocked}
                                 />
-                            ))}
-                        </div>
-                    )}
+                                {hasMessages && (
+                                    <button
+                                        onClick={() => setShowSampleQuestions(false)}
+                                        className="absolute top-0 right-0 p-1 rounded-md text-gray-400 hover:text-black"
+                                        aria-label={t.chat.hideSampleQuestions}
+                                    >
+                                        <X size={16} />
+                                    </button>
+                                )}
+                            </div>
+                        ) : (
+                            <div className="mb-2 flex justify-center">
+                                <button
+                                    onClick={() => setShowSampleQuestions(true)}
+                                    className="px-3 py-1 rounded-full bg-white border border-gray-200 text-xs text-gray-600 hover:text-black hover:border-gray-300 shadow-sm flex items-center gap-1.5 transition-colors duration-200"
+                                >
+                                    <Lightbulb size={12} />
+                                    {t.chat.showSampleQuestions}
+                                </button>
+                            </div>
+                        ))}
 
-                    <form
-                        onSubmit={handleFormSubmit}
-                        className="relative flex items-center bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden transition-all duration-300 focus-within:shadow-lg focus-within:border-gray-300"
-                    >
-                        <input
-                            ref={inputRef}
-                            type="text"
-                            value={input}
-                            onChange={handleInputChange}
-                            onKeyDown={handleKeyDown}
-                            placeholder="SenpaiChatに質問を入力... (Enterで送信)"
-                            className="flex-1 py-4 px-6 border-none focus:outline-none focus:ring-0 text-gray-700 placeholder-gray-400 bg-transparent"
-                            disabled={isLoading}
-                            required
-                        />
-                        <button
-                            type="submit"
-                            className={`mr-3 flex-shrink-0 p-3 rounded-xl text-white transition-all duration-300 ease-in-out ${
-                                isLoading || !input.trim()
-                                    ? 'bg-gray-300 cursor-not-allowed opacity-60'
-                                    : 'bg-black hover:bg-gray-900 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2'
-                            }`}
-                            disabled={isLoading || !input.trim()}
-                            aria-label="送信"
+                        <form
+                            onSubmit={handleFormSubmit}
+                            className="relative flex items-center bg-white rounded-2xl shadow-xl border border-gray-200 overflow-hidden transition-all duration-300 focus-within:shadow-lg focus-within:border-gray-300"
                         >
-                            <Send size={20} />
-                        </button>
-                    </form>
+                            <input
+                                ref={inputRef}
+                                type="text"
+                                value={input}
+                                onChange={handleInputChange}
+                                onKeyDown={handleKeyDown}
+                                placeholder={isAcceptingQueries ? t.chat.placeholder : t.chat.placeholderUnavailable}
+                                className="flex-1 py-4 px-6 border-none focus:outline-none focus:ring-0 text-gray-700 placeholder-gray-400 bg-transparent disabled:cursor-not-allowed"
+                                disabled={isLoading || !isAcceptingQueries}
+                                required
+                            />
+                            {isLoading ? (
+                                <button
+                                    type="button"
+                                    onClick={handleStop}
+                                    className="mr-3 flex-shrink-0 p-3 rounded-xl text-white bg-black hover:bg-gray-900 hover:shadow-md transition-all duration-300 ease-in-out focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+                                    aria-label={t.chat.stop}
+                                >
+                                    <Square size={20} />
+                                </button>
+                            ) : (
+                                <button
+                                    type="submit"
+                                    className={`mr-3 flex-shrink-0 p-3 rounded-xl text-white transition-all duration-300 ease-in-out ${
+                                        isLoading || isSendingBlocked || !input.trim()
+                                            ? 'bg-gray-300 cursor-not-allowed opacity-60'
+                                            : 'bg-black hover:bg-gray-900 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2'
+                                    }`}
+                                    disabled={isLoading || isSendingBlocked || !input.trim()}
+                                    aria-label={t.chat.send}
+                                >
+                                    <Send size={20} />
+                                </button>
+                            )}
+                        </form>
+                    </div>
                 </div>
             </div>
+
+            {isShareDialogOpen && (
+                <ShareDialog
+                    share={share}
+                    onCreate={handleCreateShare}
+                    onRevoke={handleRevokeShare}
+                    onClose={() => setIsShareDialogOpen(false)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,163 @@
+// components/ConversationSidebar.tsx
+'use client';
+
+import React, { useState, KeyboardEvent } from 'react';
+import { MessageSquarePlus, Pencil, Trash2, Search, Check, X } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+import { formatMessage, toDateLocale, type Locale } from '@/lib/i18n';
+import type { Conversation } from '@/types/chat';
+
+interface ConversationSidebarProps {
+    conversations: Conversation[];
+    activeConversationId: string | null;
+    isOpen: boolean;
+    onSelect: (id: string) => void;
+    onNewConversation: () => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+}
+
+// タイトルと本文のどちらかに検索語を含む会話だけを残す
+const matchesSearch = (conversation: Conversation, searchTerm: string) => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return true;
+    return conversation.title.toLowerCase().includes(term) ||
+        conversation.messages.some((msg) => msg.content.toLowerCase().includes(term));
+};
+
+const formatDate = (date: Date, locale: Locale) =>
+    date.toLocaleDateString(toDateLocale(locale), { month: 'numeric', day: 'numeric' });
+
+// 過去の会話一覧のサイドバー
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+    conversations,
+    activeConversationId,
+    isOpen,
+    onSelect,
+    onNewConversation,
+    onRename,
+    onDelete,
+}) => {
+    const [searchTerm, setSearchTerm] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingTitle, setEditingTitle] = useState('');
+    const { locale, messages: t } = useI18n();
+
+    const startEditing = (conversation: Conversation) => {
+        setEditingId(conversation.id);
+        setEditingTitle(conversation.title);
+    };
+
+    const commitEditing = () => {
+        if (editingId && editingTitle.trim()) {
+            onRename(editingId, editingTitle.trim());
+        }
+        setEditingId(null);
+    };
+
+    const handleEditKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            commitEditing();
+        } else if (e.key === 'Escape') {
+            setEditingId(null);
+        }
+    };
+
+    const handleDelete = (conversation: Conversation) => {
+        if (window.confirm(formatMessage(t.sidebar.confirmDelete, { title: conversation.title }))) {
+            onDelete(conversation.id);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const filteredConversations = conversations.filter((conversation) => matchesSearch(conversation, searchTerm));
+
+    return (
+        <aside className="w-72 flex-shrink-0 h-full bg-white border-r border-gray-200 flex flex-col">
+            <div className="p-4 border-b border-gray-200 space-y-3">
+                <button
+                    onClick={onNewConversation}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-black text-white text-sm font-medium hover:bg-gray-900 transition-colors duration-200 shadow-md"
+                >
+                    <MessageSquarePlus size={16} />
+                    {t.sidebar.newConversation}
+                </button>
+                <div className="flex items-center gap-2 px-3 py-2 rounded-xl border border-gray-200 bg-gray-50 focus-within:border-gray-300">
+                    <Search size={14} className="text-gray-400 flex-shrink-0" />
+                    <input
+                        type="text"
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        placeholder={t.sidebar.search}
+                        className="flex-1 min-w-0 text-sm bg-transparent border-none focus:outline-none text-gray-700 placeholder-gray-400"
+                        aria-label={t.sidebar.search}
+                    />
+                </div>
+            </div>
+
+            <nav className="flex-1 overflow-y-auto p-2">
+                {filteredConversations.length === 0 && (
+                    <p className="px-3 py-6 text-sm text-center text-gray-400">
+                        {conversations.length === 0 ? t.sidebar.empty : t.sidebar.noMatches}
+                    </p>
+                )}
+                <ul className="space-y-1">
+                    {filteredConversations.map((conversation) => {
+                        const isActive = conversation.id === activeConversationId;
+                        const isEditing = conversation.id === editingId;
+                        return (
+                            <li
+                                key={conversation.id}
+                                className={`group flex items-center gap-2 rounded-xl px-3 py-2 text-sm transition-colors duration-200 ${
+                                    isActive ? 'bg-gray-100 text-black' : 'text-gray-700 hover:bg-gray-50'
+                                }`}
+                            >
+                                {isEditing ? (
+                                    <>
+                                        <input
+                                            type="text"
+                                            value={editingTitle}
+                                            onChange={(e) => setEditingTitle(e.target.value)}
+                                            onKeyDown={handleEditKeyDown}
+                                            className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-gray-300 text-sm focus:outline-none"
+                                            aria-label={t.sidebar.titleInput}
+                                            autoFocus
+                                        />
+                                        <button onClick={commitEditing} className="p-1 text-gray-500 hover:text-black" aria-label={t.sidebar.saveTitle}>
+                                            <Check size={14} />
+                                        </button>
+                                        <button onClick={() => setEditingId(null)} className="p-1 text-gray-500 hover:text-black" aria-label={t.common.cancel}>
+                                            <X size={14} />
+                                        </button>
+                                    </>
+                                ) : (
+                                    <>
+                                        <button
+                                            onClick={() => onSelect(conversation.id)}
+                                            className="flex-1 min-w-0 text-left"
+                                        >
+                                            <span className="block truncate font-medium">{conversation.title}</span>
+                                            <span className="block text-xs text-gray-400">{formatDate(conversation.updatedAt, locale)}</span>
+                                        </button>
+                                        <div className="flex-shrink-0 flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity duration-200">
+                                            <button onClick={() => startEditing(conversation)} className="p-1 text-gray-400 hover:text-black" aria-label={t.sidebar.rename}>
+                                                <Pencil size={14} />
+                                            </button>
+                                            <button onClick={() => handleDelete(conversation)} className="p-1 text-gray-400 hover:text-red-600" aria-label={t.sidebar.delete}>
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            </nav>
+        </aside>
+    );
+};
+
+export default ConversationSidebar;
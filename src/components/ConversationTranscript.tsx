@@ -0,0 +1,71 @@
+// components/ConversationTranscript.tsx
+'use client';
+
+import React from 'react';
+import MarkdownContent from '@/components/MarkdownContent';
+import { useI18n } from '@/components/I18nProvider';
+import { formatMessage, toDateLocale, type Locale } from '@/lib/i18n';
+import type { Conversation } from '@/types/chat';
+
+interface ConversationTranscriptProps {
+    conversation: Pick<Conversation, 'title' | 'messages'>;
+    backendName?: string;
+}
+
+const formatDateTime = (date: Date, locale: Locale) =>
+    date.toLocaleString(toDateLocale(locale), { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// 会話を上から順に読める形で表示する (印刷して PDF に保存できるよう、操作ボタンや影は付けない)
+const ConversationTranscript: React.FC<ConversationTranscriptProps> = ({ conversation, backendName }) => {
+    const { locale, messages: t } = useI18n();
+
+    return (
+        <article className="text-gray-900">
+            <header className="mb-6 pb-4 border-b border-gray-300">
+                <h1 className="text-2xl font-bold">{conversation.title}</h1>
+                {backendName && (
+                    <p className="mt-1 text-sm text-gray-500">{t.backend.label}: {backendName}</p>
+                )}
+            </header>
+            {conversation.messages.map((msg) => (
+                <section key={msg.id} className="mb-6 break-inside-avoid-page">
+                    <h2 className="mb-2 flex items-baseline gap-2 text-sm font-semibold text-gray-600">
+                        {msg.role === 'user' ? t.export.question : t.export.answer}
+                        {msg.timestamp && (
+                            <time dateTime={msg.timestamp.toISOString()} className="font-normal text-gray-400" suppressHydrationWarning>
+                                {formatDateTime(msg.timestamp, locale)}
+                            </time>
+                        )}
+                    </h2>
+                    {msg.role === 'user' ? (
+                        <p className="whitespace-pre-wrap font-medium">{msg.content}</p>
+                    ) : (
+                        <div className="leading-relaxed">
+                            <MarkdownContent content={msg.content} />
+                        </div>
+                    )}
+                    {msg.isStopped && <p className="mt-2 text-sm text-gray-500">{t.message.stopped}</p>}
+                    {msg.error && (
+                        <p className="mt-2 text-sm text-red-700">{formatMessage(t.export.failedAnswer, { message: msg.error.message })}</p>
+                    )}
+                    {msg.sources && msg.sources.length > 0 && (
+                        <div className="mt-3 text-sm">
+                            <p className="font-semibold text-gray-600">{t.export.sources}</p>
+                            <ol className="mt-1 list-decimal pl-6 space-y-0.5 text-gray-700">
+                                {msg.sources.map((source, index) => (
+                                    <li key={index}>
+                                        {source.title}
+                                        {/* 印刷しても参照できるよう URL は文字で表示する */}
+                                        {source.url && <span className="ml-1 text-gray-500 break-all">({source.url})</span>}
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
+                </section>
+            ))}
+        </article>
+    );
+};
+
+export default ConversationTranscript;
@@ -0,0 +1,38 @@
+// components/EmbeddedChat.tsx
+'use client';
+
+import React, { useEffect } from 'react';
+import ChatInterface from '@/components/ChatInterface';
+import { EMBED_MESSAGE_SOURCE, type EmbedConfig, type EmbedEvent } from '@/types/embed';
+
+interface EmbeddedChatProps {
+    config: EmbedConfig;
+    parentOrigin: string; // 埋め込み先のオリジン (許可リストで確認済み)
+}
+
+// 他のサイトの iframe の中で表示するチャット
+const EmbeddedChat: React.FC<EmbeddedChatProps> = ({ config, parentOrigin }) => {
+    // 埋め込み先のページにだけイベントを送る (targetOrigin を指定して他のオリジンには渡さない)
+    const postToHost = (event: EmbedEvent) => {
+        if (window.parent === window) return;
+        window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, ...event }, parentOrigin);
+    };
+
+    useEffect(() => {
+        postToHost({ type: 'ready' });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    return (
+        <ChatInterface
+            embed={{
+                backend: config.backend,
+                question: config.question,
+                theme: config.theme,
+                onEvent: postToHost,
+            }}
+        />
+    );
+};
+
+export default EmbeddedChat;
@@ -0,0 +1,107 @@
+// components/ExportMenu.tsx
+import React, { ChangeEvent, useEffect, useRef, useState } from 'react';
+import { Download, FileJson, FileText, Printer, Upload } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+
+interface ExportMenuProps {
+    canExport: boolean; // 書き出せる会話があるか
+    canPrint: boolean; // 印刷用の画面は保存済みの会話を読むため、IndexedDB が使えない場合は false
+    onExportMarkdown: () => void;
+    onExportJson: () => void;
+    onPrint: () => void;
+    onImport: (file: File) => void;
+    disabled?: boolean;
+}
+
+// ヘッダーの会話の書き出し (Markdown / JSON / 印刷) と JSON の読み込みのメニュー
+const ExportMenu: React.FC<ExportMenuProps> = ({
+    canExport,
+    canPrint,
+    onExportMarkdown,
+    onExportJson,
+    onPrint,
+    onImport,
+    disabled,
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { messages: t } = useI18n();
+
+    // 外側のクリックと Escape で閉じる
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+            if (e.key === 'Escape') setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [isOpen]);
+
+    const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // 同じファイルを続けて選べるようにする
+        if (file) onImport(file);
+    };
+
+    const menuItem = (label: string, Icon: typeof Download, onClick: () => void, enabled = true) => (
+        <li role="none">
+            <button
+                onClick={() => {
+                    setIsOpen(false);
+                    onClick();
+                }}
+                disabled={!enabled}
+                className="w-full flex items-center gap-2.5 px-3 py-2 rounded-lg text-sm text-left text-gray-700 hover:bg-gray-50 hover:text-black transition-colors duration-200 disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                role="menuitem"
+            >
+                <Icon size={16} className="flex-shrink-0" />
+                {label}
+            </button>
+        </li>
+    );
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen((open) => !open)}
+                disabled={disabled}
+                className="p-2 rounded-lg text-gray-600 hover:text-black hover:bg-gray-100 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                aria-label={t.export.menu}
+                title={t.export.menu}
+            >
+                <Download size={18} />
+            </button>
+            {isOpen && (
+                <ul
+                    className="absolute right-0 mt-1 w-56 p-1 bg-white rounded-xl border border-gray-200 shadow-lg shadow-gray-200/50 z-20"
+                    role="menu"
+                >
+                    {menuItem(t.export.markdown, FileText, onExportMarkdown, canExport)}
+                    {menuItem(t.export.json, FileJson, onExportJson, canExport)}
+                    {menuItem(t.export.print, Printer, onPrint, canExport && canPrint)}
+                    <li role="separator" className="my-1 border-t border-gray-100" />
+                    {menuItem(t.export.import, Upload, () => fileInputRef.current?.click())}
+                </ul>
+            )}
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFileChange}
+                className="hidden"
+            />
+        </div>
+    );
+};
+
+export default ExportMenu;
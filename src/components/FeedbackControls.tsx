@@ -0,0 +1,141 @@
+// components/FeedbackControls.tsx
+import React, { useState } from 'react';
+import { ThumbsUp, ThumbsDown, X } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+import type { MessageFeedback } from '@/types/chat';
+import { MAX_FEEDBACK_COMMENT_LENGTH, type FeedbackRating, type FeedbackReason } from '@/types/feedback';
+
+export interface FeedbackInput {
+    rating: FeedbackRating;
+    reason?: FeedbackReason;
+    comment?: string;
+}
+
+interface FeedbackControlsProps {
+    feedback?: MessageFeedback;
+    onSubmit: (input: FeedbackInput) => Promise<void>;
+}
+
+// 評価ごとに選べる理由 (表示名はメッセージカタログの feedback.reasons)
+const reasonOptions: Record<FeedbackRating, FeedbackReason[]> = {
+    up: ['helpful', 'other'],
+    down: ['incorrect', 'outdated', 'incomplete', 'irrelevant', 'other'],
+};
+
+// 回答への 👍/👎 と、理由・コメントの入力パネル
+const FeedbackControls: React.FC<FeedbackControlsProps> = ({ feedback, onSubmit }) => {
+    const [rating, setRating] = useState<FeedbackRating | null>(null);
+    const [reason, setReason] = useState<FeedbackReason | undefined>(undefined);
+    const [comment, setComment] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { messages: t } = useI18n();
+
+    const selectedRating = feedback?.rating ?? rating;
+
+    const handleSelectRating = (value: FeedbackRating) => {
+        if (feedback || isSubmitting) return;
+        setRating(rating === value ? null : value);
+        setReason(undefined);
+        setError(null);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!rating) return;
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await onSubmit({ rating, reason, comment: comment.trim() || undefined });
+            setRating(null);
+        } catch (err) {
+            console.error('Failed to submit feedback:', err);
+            setError(t.feedback.submitFailed);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const ratingButton = (value: FeedbackRating, label: string, Icon: typeof ThumbsUp) => (
+        <button
+            onClick={() => handleSelectRating(value)}
+            disabled={!!feedback || isSubmitting}
+            className={`p-1.5 rounded-md transition-colors duration-200 ${
+                selectedRating === value ? 'text-black' : 'text-gray-400 hover:text-black'
+            } disabled:cursor-default ${feedback && selectedRating !== value ? 'opacity-30' : ''}`}
+            aria-label={label}
+            aria-pressed={selectedRating === value}
+            title={label}
+        >
+            <Icon size={14} fill={selectedRating === value ? 'currentColor' : 'none'} />
+        </button>
+    );
+
+    return (
+        <div className="flex flex-col items-start">
+            <div className="flex items-center">
+                {ratingButton('up', t.feedback.good, ThumbsUp)}
+                {ratingButton('down', t.feedback.bad, ThumbsDown)}
+                {feedback && <span className="ml-1 text-xs text-gray-400">{t.feedback.thanks}</span>}
+            </div>
+            {rating && !feedback && (
+                <form
+                    onSubmit={handleSubmit}
+                    className="mt-1 w-full min-w-[18rem] max-w-md p-3 rounded-xl bg-white border border-gray-200 shadow-lg shadow-gray-200/50"
+                >
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-medium text-gray-800">
+                            {rating === 'up' ? t.feedback.promptGood : t.feedback.promptBad}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() => setRating(null)}
+                            className="p-1 rounded-md text-gray-400 hover:text-black"
+                            aria-label={t.common.close}
+                        >
+                            <X size={14} />
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                        {reasonOptions[rating].map((option) => (
+                            <button
+                                key={option}
+                                type="button"
+                                onClick={() => setReason(reason === option ? undefined : option)}
+                                className={`px-2.5 py-1 rounded-full border text-xs transition-colors duration-200 ${
+                                    reason === option
+                                        ? 'bg-black text-white border-black'
+                                        : 'bg-gray-50 text-gray-700 border-gray-200 hover:border-gray-300'
+                                }`}
+                                aria-pressed={reason === option}
+                            >
+                                {t.feedback.reasons[option]}
+                            </button>
+                        ))}
+                    </div>
+                    <textarea
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+                        rows={2}
+                        placeholder={t.feedback.commentPlaceholder}
+                        className="mt-2 w-full p-2 rounded-lg border border-gray-200 text-sm text-gray-800 focus:outline-none focus:border-gray-400 resize-y"
+                        aria-label={t.feedback.comment}
+                    />
+                    {error && <p className="mt-1 text-xs text-red-600" role="alert">{error}</p>}
+                    <div className="mt-2 flex justify-end">
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="px-3 py-1.5 rounded-lg text-sm text-white bg-black hover:bg-gray-900 disabled:opacity-50"
+                        >
+                            {isSubmitting ? t.common.sending : t.common.send}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default FeedbackControls;
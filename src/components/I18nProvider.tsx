@@ -0,0 +1,42 @@
+// components/I18nProvider.tsx
+'use client';
+
+import React, { createContext, useContext, useState } from 'react';
+import { getMessages, LOCALE_COOKIE, type Locale } from '@/lib/i18n';
+import type { Messages } from '@/locales/ja';
+
+interface I18nContextValue {
+    locale: Locale;
+    messages: Messages;
+    setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// 手動で選んだ言語は 1 年間保存する
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/** layout.tsx で判定した言語を初期値として、子コンポーネントにメッセージカタログを渡す */
+export const I18nProvider: React.FC<{ initialLocale: Locale; children: React.ReactNode }> = ({ initialLocale, children }) => {
+    const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+    const setLocale = (next: Locale) => {
+        setLocaleState(next);
+        document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+        document.documentElement.lang = next;
+    };
+
+    return (
+        <I18nContext.Provider value={{ locale, messages: getMessages(locale), setLocale }}>
+            {children}
+        </I18nContext.Provider>
+    );
+};
+
+export const useI18n = (): I18nContextValue => {
+    const context = useContext(I18nContext);
+    if (!context) {
+        throw new Error('useI18n must be used within I18nProvider.');
+    }
+    return context;
+};
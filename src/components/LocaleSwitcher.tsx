@@ -0,0 +1,34 @@
+// components/LocaleSwitcher.tsx
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, type Locale } from '@/lib/i18n';
+import { useI18n } from '@/components/I18nProvider';
+
+// 言語名はその言語自身の表記で表示する
+const localeNames: Record<Locale, string> = {
+    ja: '日本語',
+    en: 'English',
+};
+
+// ヘッダーの言語切り替え
+const LocaleSwitcher: React.FC = () => {
+    const { locale, messages: t, setLocale } = useI18n();
+
+    return (
+        <label className="flex items-center gap-1.5 text-sm text-gray-600">
+            <Languages size={16} aria-hidden="true" />
+            <span className="sr-only">{t.locale.label}</span>
+            <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="bg-transparent py-1 pr-1 rounded-md hover:text-black focus:outline-none focus:ring-2 focus:ring-gray-300 cursor-pointer"
+            >
+                {LOCALES.map((value) => (
+                    <option key={value} value={value}>{localeNames[value]}</option>
+                ))}
+            </select>
+        </label>
+    );
+};
+
+export default LocaleSwitcher;
@@ -0,0 +1,114 @@
+// components/MarkdownContent.tsx
+'use client';
+
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Check, Copy } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+
+/**
+ * ストリーミング途中の Markdown を描画できる形に補う。
+ * 閉じていないコードブロックや太字をそのまま描画すると、閉じた瞬間に
+ * 後続の表示が大きく変わってちらつくため、仮に閉じておく。
+ */
+export const closeOpenMarkdown = (text: string) => {
+    let result = text;
+    const fenceCount = (result.match(/^\s*(```|~~~)/gm) ?? []).length;
+    if (fenceCount % 2 === 1) {
+        return `${result}\n\`\`\``;
+    }
+    // コードブロックの外にある ** の数が奇数なら閉じる
+    const outsideCode = result.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+    if ((outsideCode.match(/\*\*/g) ?? []).length % 2 === 1) {
+        result = `${result}**`;
+    }
+    return result;
+};
+
+// コピーボタン付きのコードブロック
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+    const preRef = useRef<HTMLPreElement>(null);
+    const [copied, setCopied] = useState(false);
+    const { messages: t } = useI18n();
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (err) {
+            console.error('Failed to copy code:', err);
+        }
+    };
+
+    return (
+        <div className="relative my-3 group/code">
+            <pre
+                ref={preRef}
+                {...props}
+                className="overflow-x-auto rounded-xl bg-gray-900 text-gray-100 text-sm p-4 pr-12 font-mono leading-relaxed [&>code]:p-0 [&>code]:bg-transparent [&>code]:text-inherit"
+            >
+                {children}
+            </pre>
+            <button
+                onClick={handleCopy}
+                className="absolute top-2 right-2 p-1.5 rounded-lg bg-white/10 text-gray-300 hover:bg-white/20 hover:text-white transition-colors duration-200 print:hidden"
+                aria-label={copied ? t.message.copied : t.message.copyCode}
+            >
+                {copied ? <Check size={14} /> : <Copy size={14} />}
+            </button>
+        </div>
+    );
+};
+
+// react-markdown が渡す node (hast) を DOM の属性に含めないよう取り除く
+const omitNode = <P extends { node?: unknown }>(props: P): Omit<P, 'node'> => {
+    const rest = { ...props };
+    delete rest.node;
+    return rest;
+};
+
+// Tailwind の preflight で消える要素ごとのスタイルを補う
+const components: Components = {
+    h1: (props) => <h1 className="text-xl font-bold mt-4 mb-2" {...omitNode(props)} />,
+    h2: (props) => <h2 className="text-lg font-bold mt-4 mb-2" {...omitNode(props)} />,
+    h3: (props) => <h3 className="text-base font-bold mt-3 mb-1.5" {...omitNode(props)} />,
+    h4: (props) => <h4 className="font-bold mt-3 mb-1" {...omitNode(props)} />,
+    p: (props) => <p className="my-2 first:mt-0 last:mb-0" {...omitNode(props)} />,
+    ul: (props) => <ul className="list-disc pl-6 my-2 space-y-1" {...omitNode(props)} />,
+    ol: (props) => <ol className="list-decimal pl-6 my-2 space-y-1" {...omitNode(props)} />,
+    blockquote: (props) => (
+        <blockquote className="border-l-4 border-gray-200 pl-4 my-2 text-gray-600" {...omitNode(props)} />
+    ),
+    a: (props) => (
+        <a className="underline underline-offset-2 hover:text-black" target="_blank" rel="noopener noreferrer" {...omitNode(props)} />
+    ),
+    pre: (props) => <CodeBlock {...omitNode(props)} />,
+    // コードブロック内の code は CodeBlock 側で装飾を打ち消す
+    code: ({ className, ...props }) => (
+        <code className={`${className ?? ''} px-1.5 py-0.5 rounded-md bg-gray-100 text-[0.9em] font-mono`} {...omitNode(props)} />
+    ),
+    table: (props) => (
+        <div className="my-3 overflow-x-auto">
+            <table className="min-w-full border-collapse text-sm" {...omitNode(props)} />
+        </div>
+    ),
+    th: (props) => <th className="border border-gray-200 bg-gray-50 px-3 py-1.5 text-left font-semibold" {...omitNode(props)} />,
+    td: (props) => <td className="border border-gray-200 px-3 py-1.5 align-top" {...omitNode(props)} />,
+    hr: (props) => <hr className="my-4 border-gray-200" {...omitNode(props)} />,
+    img: ({ alt }) => <span>{alt}</span>, // 外部画像は読み込まない
+};
+
+/**
+ * モデルの出力を Markdown として描画する。
+ * 生の HTML は描画せず (skipHtml)、リンクの URL は react-markdown の既定の
+ * urlTransform で javascript: などの危険なスキームが取り除かれる。
+ */
+const MarkdownContent: React.FC<{ content: string }> = ({ content }) => (
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} skipHtml>
+        {closeOpenMarkdown(content)}
+    </ReactMarkdown>
+);
+
+export default React.memo(MarkdownContent);
@@ -1,38 +1,315 @@
 // components/MessageBubble.tsx
-import React from 'react';
-import { User, Bot } from 'lucide-react'; // アイコン使用例
+import React, { useState } from 'react';
+import { User, FileText, ExternalLink, RefreshCw, Pencil, ChevronLeft, ChevronRight, AlertCircle, RotateCcw } from 'lucide-react';
+import { isAnswerPolicyDebugEnabled, type AppliedRule } from '@/lib/answerPolicy';
+import MarkdownContent from '@/components/MarkdownContent';
+import FeedbackControls, { type FeedbackInput } from '@/components/FeedbackControls';
+import { QuestionTag } from '@/components/SampleQuestionPanel';
+import { useI18n } from '@/components/I18nProvider';
+import AssistantAvatar from '@/components/AssistantAvatar';
+import type { MessageError, MessageFeedback, MessageRole, Source } from '@/types/chat';
 
 interface MessageBubbleProps {
-    role: 'user' | 'assistant';
+    role: MessageRole;
     content: string;
+    sources?: Source[];
+    appliedRules?: AppliedRule[];
+    isStopped?: boolean;
+    error?: MessageError;
+    onRetry?: () => void;
+    variantIndex?: number;
+    variantCount?: number;
+    onSelectVariant?: (variantIndex: number) => void;
+    onRegenerate?: () => void;
+    onEdit?: (content: string) => void;
+    feedback?: MessageFeedback;
+    onSubmitFeedback?: (input: FeedbackInput) => Promise<void>;
+    suggestions?: string[];
+    onSelectSuggestion?: (suggestion: string) => void; // 指定された場合のみ次の質問の候補を表示する
+    avatar?: string; // アシスタントのアイコン画像
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ role, content }) => {
-    const isUser = role === 'user';
-    // 簡単なマークダウン（改行）の処理
-    const formattedContent = content.split('\n').map((line, index) => (
-        <React.Fragment key={index}>
-            {line}
-            <br />
-        </React.Fragment>
-    ));
+const showAppliedRules = isAnswerPolicyDebugEnabled();
+
+// 出典の URL はバックエンドや読み込んだ会話から届くため、http(s) 以外 (javascript: など) はリンクにしない
+const isLinkableUrl = (value: string) => {
+    try {
+        const { protocol } = new URL(value);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+// 番号付きの出典チップと、選択中の出典の抜粋パネル
+const SourceList: React.FC<{ sources: Source[] }> = ({ sources }) => {
+    const [openIndex, setOpenIndex] = useState<number | null>(null);
+    const openSource = openIndex !== null ? sources[openIndex] : null;
+
+    return (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+            <div className="flex flex-wrap gap-2">
+                {sources.map((source, index) => (
+                    <button
+                        key={index}
+                        onClick={() => setOpenIndex(openIndex === index ? null : index)}
+                        className={`max-w-[16rem] px-2.5 py-1 rounded-full border text-xs flex items-center gap-1.5 transition-colors duration-200 ${
+                            openIndex === index
+                                ? 'bg-black text-white border-black'
+                                : 'bg-gray-50 text-gray-700 border-gray-200 hover:border-gray-300'
+                        }`}
+                        aria-expanded={openIndex === index}
+                        title={source.title}
+                    >
+                        <span className="font-semibold">[{index + 1}]</span>
+                        <span className="truncate">{source.title}</span>
+                    </button>
+                ))}
+            </div>
+            {openSource && (
+                <div className="mt-2 p-3 rounded-xl bg-gray-50 border border-gray-100 text-sm text-gray-700">
+                    <div className="flex items-center gap-2 font-semibold text-gray-900">
+                        <FileText size={14} className="flex-shrink-0" />
+                        <span className="break-words">{openSource.title}</span>
+                    </div>
+                    {openSource.snippet && (
+                        <p className="mt-2 whitespace-pre-wrap leading-relaxed">{openSource.snippet}</p>
+                    )}
+                    {openSource.url && (isLinkableUrl(openSource.url) ? (
+                        <a
+                            href={openSource.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="mt-2 inline-flex items-center gap-1 text-xs text-gray-500 underline hover:text-black break-all"
+                        >
+                            {openSource.url}
+                            <ExternalLink size={12} className="flex-shrink-0" />
+                        </a>
+                    ) : (
+                        <p className="mt-2 text-xs text-gray-500 break-all">{openSource.url}</p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// 回答の候補を切り替える "1/3" 表示
+const VariantSwitcher: React.FC<{ index: number; count: number; onSelect?: (index: number) => void }> = ({ index, count, onSelect }) => {
+    const { messages: t } = useI18n();
+    return (
+        <div className="flex items-center gap-1 text-xs text-gray-500">
+            <button
+                onClick={() => onSelect?.(index - 1)}
+                disabled={!onSelect || index === 0}
+                className="p-1 rounded-md hover:text-black disabled:opacity-30 disabled:hover:text-gray-500"
+                aria-label={t.message.previousVariant}
+            >
+                <ChevronLeft size={14} />
+            </button>
+            <span className="tabular-nums">{index + 1}/{count}</span>
+            <button
+                onClick={() => onSelect?.(index + 1)}
+                disabled={!onSelect || index === count - 1}
+                className="p-1 rounded-md hover:text-black disabled:opacity-30 disabled:hover:text-gray-500"
+                aria-label={t.message.nextVariant}
+            >
+                <ChevronRight size={14} />
+            </button>
+        </div>
+    );
+};
+
+// 質問の編集フォーム
+const EditForm: React.FC<{ initialContent: string; onSubmit: (content: string) => void; onCancel: () => void }> = ({
+    initialContent,
+    onSubmit,
+    onCancel,
+}) => {
+    const [draft, setDraft] = useState(initialContent);
+    const { messages: t } = useI18n();
 
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (draft.trim()) onSubmit(draft);
+    };
 
     return (
-        <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4`}>
-            <div className={`flex items-start max-w-xl ${isUser ? 'flex-row-reverse' : ''}`}>
-                <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${isUser ? 'bg-blue-500 text-white ml-2' : 'bg-gray-300 text-gray-700 mr-2'}`}>
-                    {isUser ? <User size={18} /> : <Bot size={18} />}
+        <form onSubmit={handleSubmit} className="w-full min-w-[16rem]">
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Escape') onCancel();
+                }}
+                rows={3}
+                className="w-full p-3 rounded-xl border border-gray-300 bg-white text-gray-800 text-sm focus:outline-none focus:border-gray-400 resize-y"
+                aria-label={t.message.editQuestion}
+                autoFocus
+            />
+            <div className="mt-2 flex justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-gray-100"
+                >
+                    {t.common.cancel}
+                </button>
+                <button
+                    type="submit"
+                    disabled={!draft.trim()}
+                    className="px-3 py-1.5 rounded-lg text-sm text-white bg-black hover:bg-gray-900 disabled:opacity-50"
+                >
+                    {t.common.send}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+// モノクロームのメッセージバブル
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+    role,
+    content,
+    sources,
+    appliedRules,
+    isStopped,
+    error,
+    onRetry,
+    variantIndex,
+    variantCount,
+    onSelectVariant,
+    onRegenerate,
+    onEdit,
+    feedback,
+    onSubmitFeedback,
+    suggestions,
+    onSelectSuggestion,
+    avatar,
+}) => {
+    const isUser = role === 'user';
+    const { messages: t } = useI18n();
+    const [isEditing, setIsEditing] = useState(false);
+    const hasVariants = !isUser && variantCount !== undefined && variantCount > 1;
+
+    if (isEditing && onEdit) {
+        return (
+            <div className="flex justify-end mb-5">
+                <div className="max-w-[80%] w-full sm:w-auto">
+                    <EditForm
+                        initialContent={content}
+                        onSubmit={(edited) => {
+                            setIsEditing(false);
+                            onEdit(edited);
+                        }}
+                        onCancel={() => setIsEditing(false)}
+                    />
                 </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className={`flex flex-col ${isUser ? 'items-end' : 'items-start'} mb-5 group`}>
+            <div className={`flex items-start gap-3 max-w-[80%] transition-all duration-300`}>
+                {isUser ? (
+                    <div className="flex-shrink-0 w-9 h-9 rounded-full flex items-center justify-center shadow-md bg-black order-last">
+                        <User size={18} className="text-white/90" />
+                    </div>
+                ) : (
+                    <AssistantAvatar avatar={avatar} className="shadow-md" />
+                )}
                 <div
-                    className={`px-4 py-2 rounded-lg shadow ${isUser ? 'bg-blue-100 text-gray-800' : 'bg-white text-gray-800 border border-gray-200'}`}
-                    style={{ overflowWrap: 'break-word', wordBreak: 'break-word' }} // 長い単語の折り返し
+                    className={`px-5 py-4 rounded-2xl ${
+                        isUser
+                            ? 'bg-black text-white shadow-lg shadow-black/10'
+                            : 'bg-white text-gray-800 border-0 shadow-lg shadow-gray-200/50'
+                    }`}
+                    style={{
+                        wordBreak: 'break-word',
+                    }}
                 >
-                    {formattedContent}
+                    {isUser ? (
+                        <div className="font-medium text-white/90 leading-relaxed" style={{ whiteSpace: 'pre-wrap' }}>
+                            {content}
+                        </div>
+                    ) : content && (
+                        // 回答は Markdown として描画する (生の HTML は描画しない)
+                        <div className="font-medium text-gray-900 leading-relaxed min-w-0">
+                            <MarkdownContent content={content} />
+                        </div>
+                    )}
+                    {error && (
+                        <div
+                            className={`${content ? 'mt-3' : ''} p-3 text-sm text-red-700 bg-red-50 rounded-xl border border-red-200 flex items-start gap-2`}
+                            role="alert"
+                        >
+                            <AlertCircle size={16} className="flex-shrink-0 mt-0.5 text-red-500" />
+                            <div className="flex-1 min-w-0">
+                                <span className="font-medium">{t.message.errorPrefix}</span> {error.message}
+                                {error.code && <span className="ml-1 text-xs font-mono text-red-400">({error.code})</span>}
+                            </div>
+                            {onRetry && (
+                                <button
+                                    onClick={onRetry}
+                                    className="flex-shrink-0 flex items-center gap-1 px-2.5 py-1 rounded-lg bg-white border border-red-200 text-xs font-medium text-red-700 hover:bg-red-100 transition-colors duration-200"
+                                >
+                                    <RotateCcw size={12} />
+                                    {t.message.retry}
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {!isUser && sources && sources.length > 0 && <SourceList sources={sources} />}
+                    {isStopped && (
+                        <div className="mt-2 text-xs text-gray-400">{t.message.stopped}</div>
+                    )}
+                    {showAppliedRules && appliedRules && appliedRules.length > 0 && (
+                        <div className="mt-3 pt-2 border-t border-dashed border-gray-200 text-xs font-mono text-gray-400">
+                            {appliedRules.map((rule, index) => (
+                                <div key={index}>{rule.type}: {rule.id} @{rule.index}</div>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
+            {(hasVariants || onRegenerate || onEdit || onSubmitFeedback) && (
+                <div className={`flex items-start gap-1 mt-1 ${isUser ? 'mr-12' : 'ml-12'}`}>
+                    {hasVariants && (
+                        <VariantSwitcher index={variantIndex ?? 0} count={variantCount} onSelect={onSelectVariant} />
+                    )}
+                    {onRegenerate && (
+                        <button
+                            onClick={onRegenerate}
+                            className="p-1.5 rounded-md text-gray-400 hover:text-black transition-colors duration-200"
+                            aria-label={t.message.regenerate}
+                            title={t.message.regenerate}
+                        >
+                            <RefreshCw size={14} />
+                        </button>
+                    )}
+                    {onSubmitFeedback && <FeedbackControls feedback={feedback} onSubmit={onSubmitFeedback} />}
+                    {onEdit && (
+                        <button
+                            onClick={() => setIsEditing(true)}
+                            className="p-1.5 rounded-md text-gray-400 hover:text-black opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity duration-200"
+                            aria-label={t.message.editQuestion}
+                            title={t.message.editQuestion}
+                        >
+                            <Pencil size={14} />
+                        </button>
+                    )}
+                </div>
+            )}
+            {onSelectSuggestion && suggestions && suggestions.length > 0 && (
+                <div className="mt-3 ml-12 flex flex-wrap gap-2" aria-label={t.message.suggestions}>
+                    {suggestions.map((suggestion) => (
+                        <QuestionTag key={suggestion} text={suggestion} onClick={() => onSelectSuggestion(suggestion)} />
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
 
-export default MessageBubble;
\ No newline at end of file
+export default MessageBubble;
@@ -0,0 +1,74 @@
+// components/PrintableConversation.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Printer } from 'lucide-react';
+import ConversationTranscript from '@/components/ConversationTranscript';
+import { useI18n } from '@/components/I18nProvider';
+import { getConversation, isConversationStoreAvailable } from '@/lib/conversationStore';
+import type { Conversation } from '@/types/chat';
+import type { BackendsResponse } from '@/types/backend';
+
+const backendsApiPath = '/api/backends';
+
+// 保存済みの会話の印刷用の画面 (ブラウザの印刷から「PDF に保存」できる)
+const PrintableConversation: React.FC<{ conversationId: string }> = ({ conversationId }) => {
+    const { locale, messages: t } = useI18n();
+    const [conversation, setConversation] = useState<Conversation | null | undefined>(undefined);
+    const [backendName, setBackendName] = useState<string | undefined>(undefined);
+
+    useEffect(() => {
+        if (!isConversationStoreAvailable()) {
+            setConversation(null);
+            return;
+        }
+        getConversation(conversationId)
+            .then((result) => setConversation(result ?? null))
+            .catch((err) => {
+                console.error('Failed to load conversation:', err);
+                setConversation(null);
+            });
+    }, [conversationId]);
+
+    // 会話で使ったアシスタントの表示名
+    const backendId = conversation?.backendId;
+    useEffect(() => {
+        if (!backendId) return;
+        fetch(`${backendsApiPath}?${new URLSearchParams({ locale })}`)
+            .then((response) => (response.ok ? response.json() : Promise.reject(new Error(`API Error: ${response.status}`))))
+            .then((data: BackendsResponse) => setBackendName(data.backends.find((backend) => backend.id === backendId)?.name))
+            .catch((err) => console.error('Failed to load backends:', err));
+    }, [backendId, locale]);
+
+    // 印刷したときのファイル名の既定値になる
+    useEffect(() => {
+        if (conversation) document.title = `${conversation.title} - SenpaiChat`;
+    }, [conversation]);
+
+    return (
+        <div className="min-h-screen bg-white">
+            <div className="max-w-3xl mx-auto px-6 py-8 print:p-0 print:max-w-none">
+                <div className="mb-8 flex items-center justify-between print:hidden">
+                    <Link href="/" className="flex items-center gap-1.5 text-sm text-gray-600 hover:text-black">
+                        <ArrowLeft size={16} />
+                        {t.export.backToChat}
+                    </Link>
+                    <button
+                        onClick={() => window.print()}
+                        disabled={!conversation}
+                        className="px-3 py-1.5 rounded-lg text-sm text-white bg-black hover:bg-gray-900 flex items-center gap-2 disabled:opacity-50"
+                    >
+                        <Printer size={16} />
+                        {t.export.print}
+                    </button>
+                </div>
+                {conversation === undefined && <p className="text-gray-500">{t.export.loading}</p>}
+                {conversation === null && <p className="text-gray-500" role="alert">{t.export.notFound}</p>}
+                {conversation && <ConversationTranscript conversation={conversation} backendName={backendName} />}
+            </div>
+        </div>
+    );
+};
+
+export default PrintableConversation;
@@ -0,0 +1,68 @@
+// components/SampleQuestionPanel.tsx
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+import type { SampleQuestion, SampleQuestionCategory } from '@/types/sampleQuestions';
+
+interface SampleQuestionPanelProps {
+    categories: SampleQuestionCategory[];
+    onSelect: (question: SampleQuestion) => void;
+    disabled?: boolean;
+}
+
+// 質問タグ (クリックするとそのまま送信する。回答の下の「次の質問」の候補でも使う)
+export const QuestionTag: React.FC<{ text: string; onClick: () => void; disabled?: boolean }> = ({ text, onClick, disabled }) => (
+    <button
+        onClick={onClick}
+        disabled={disabled}
+        className="px-4 py-2 bg-white border border-gray-200 rounded-full text-sm text-gray-700 hover:bg-gray-50 hover:border-gray-300 transition-colors duration-200 shadow-sm flex items-center gap-2 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+        <Search size={14} />
+        {text}
+    </button>
+);
+
+// カテゴリのタブと質問例のチップ
+const SampleQuestionPanel: React.FC<SampleQuestionPanelProps> = ({ categories, onSelect, disabled }) => {
+    const [activeCategoryId, setActiveCategoryId] = useState<string | null>(null);
+    const { messages: t } = useI18n();
+    const activeCategory = categories.find((category) => category.id === activeCategoryId) ?? categories[0];
+
+    if (!activeCategory) return null;
+
+    return (
+        <div className="flex flex-col items-center gap-3">
+            {categories.length > 1 && (
+                <div className="flex flex-wrap justify-center gap-1" role="tablist" aria-label={t.chat.sampleQuestionCategories}>
+                    {categories.map((category) => (
+                        <button
+                            key={category.id}
+                            onClick={() => setActiveCategoryId(category.id)}
+                            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors duration-200 ${
+                                category.id === activeCategory.id
+                                    ? 'bg-black text-white'
+                                    : 'text-gray-600 hover:text-black hover:bg-gray-100'
+                            }`}
+                            role="tab"
+                            aria-selected={category.id === activeCategory.id}
+                        >
+                            {category.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flex flex-wrap gap-2 justify-center" role="tabpanel">
+                {activeCategory.questions.map((question) => (
+                    <QuestionTag
+                        key={question.id}
+                        text={question.text}
+                        onClick={() => onSelect(question)}
+                        disabled={disabled}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SampleQuestionPanel;
@@ -0,0 +1,74 @@
+// components/ServiceStatusBanner.tsx
+import React from 'react';
+import { Ban, CalendarClock, Lock, Wrench } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+import { formatMessage, toDateLocale, type Locale } from '@/lib/i18n';
+import type { Messages } from '@/locales/ja';
+import type { ServiceState, ServiceStatus } from '@/types/serviceStatus';
+
+// message が設定されていない場合の文言
+const defaultMessage = (state: Exclude<ServiceState, 'open'>, t: Messages) => {
+    switch (state) {
+        case 'read-only':
+            return t.serviceStatus.readOnly;
+        case 'maintenance':
+            return t.serviceStatus.maintenance;
+        case 'closed':
+            return t.serviceStatus.closed;
+    }
+};
+
+const icons = {
+    'read-only': Lock,
+    maintenance: Wrench,
+    closed: Ban,
+};
+
+const formatDateTime = (value: string, locale: Locale) =>
+    new Date(value).toLocaleString(toDateLocale(locale), { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// メンテナンスの予定を "4/1 10:00〜4/1 12:00" の形で表す
+const formatWindow = ({ start, end }: NonNullable<ServiceStatus['maintenance']>, locale: Locale, t: Messages) => {
+    if (start && end) return `${formatDateTime(start, locale)}〜${formatDateTime(end, locale)}`;
+    if (start) return `${formatDateTime(start, locale)}〜`;
+    if (end) return formatMessage(t.serviceStatus.until, { end: formatDateTime(end, locale) });
+    return null;
+};
+
+// サービスの状態 (読み取り専用・メンテナンス・終了、メンテナンスの予告) のバナー
+const ServiceStatusBanner: React.FC<{ status: ServiceStatus }> = ({ status }) => {
+    const { locale, messages: t } = useI18n();
+    const schedule = status.maintenance ? formatWindow(status.maintenance, locale, t) : null;
+
+    if (status.state === 'open') {
+        // 予定されたメンテナンスの告知
+        if (!schedule) return null;
+        return (
+            <div className="mb-3 px-4 py-2.5 text-sm text-gray-700 bg-white rounded-xl border border-gray-200 shadow-md flex items-center justify-center gap-2" role="status">
+                <CalendarClock size={16} className="flex-shrink-0 text-gray-500" />
+                <span>
+                    {formatMessage(t.serviceStatus.scheduled, { schedule })}
+                    {status.message && <span className="ml-1 text-gray-500">{status.message}</span>}
+                </span>
+            </div>
+        );
+    }
+
+    const Icon = icons[status.state];
+    return (
+        <div
+            className={`mb-3 px-4 py-3 text-sm rounded-xl border shadow-md flex items-center justify-center gap-2 ${
+                status.state === 'closed' ? 'text-red-700 bg-red-50 border-red-200' : 'text-gray-800 bg-white border-gray-200'
+            }`}
+            role="alert"
+        >
+            <Icon size={16} className="flex-shrink-0" />
+            <span>
+                {status.message || defaultMessage(status.state, t)}
+                {status.state === 'maintenance' && schedule && <span className="ml-1 text-gray-500">({schedule})</span>}
+            </span>
+        </div>
+    );
+};
+
+export default ServiceStatusBanner;
@@ -0,0 +1,140 @@
+// components/ShareDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, Link2, X } from 'lucide-react';
+import { useI18n } from '@/components/I18nProvider';
+import { formatMessage, toDateLocale } from '@/lib/i18n';
+import type { ConversationShare } from '@/types/chat';
+
+interface ShareDialogProps {
+    share?: ConversationShare; // 作成済みの共有リンク
+    onCreate: (expiresInDays?: number) => Promise<void>;
+    onRevoke: () => Promise<void>;
+    onClose: () => void;
+}
+
+// 選べる有効期限 (日)。undefined は無期限
+const expiryOptions: (number | undefined)[] = [undefined, 7, 30];
+
+// 会話の共有リンクの作成・コピー・停止のダイアログ
+const ShareDialog: React.FC<ShareDialogProps> = ({ share, onCreate, onRevoke, onClose }) => {
+    const [expiresInDays, setExpiresInDays] = useState<number | undefined>(30);
+    const [isBusy, setIsBusy] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { locale, messages: t } = useI18n();
+
+    useEffect(() => {
+        const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const run = async (action: () => Promise<void>, failedMessage: string) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            console.error('Share action failed:', err);
+            setError(failedMessage);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!share) return;
+        try {
+            await navigator.clipboard.writeText(share.url);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (err) {
+            console.error('Failed to copy share link:', err);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 px-4" onClick={onClose}>
+            <div
+                className="w-full max-w-md p-5 rounded-2xl bg-white shadow-xl border border-gray-100"
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="share-dialog-title"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-2">
+                    <h2 id="share-dialog-title" className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                        <Link2 size={18} />
+                        {t.share.title}
+                    </h2>
+                    <button onClick={onClose} className="p-1 rounded-md text-gray-400 hover:text-black" aria-label={t.common.close}>
+                        <X size={16} />
+                    </button>
+                </div>
+                <p className="text-sm text-gray-600">{t.share.description}</p>
+
+                {share ? (
+                    <div className="mt-4 space-y-3">
+                        <div className="flex items-center gap-2">
+                            <input
+                                value={share.url}
+                                readOnly
+                                onFocus={(e) => e.target.select()}
+                                className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-800"
+                                aria-label={t.share.title}
+                            />
+                            <button
+                                onClick={handleCopy}
+                                className="px-3 py-2 rounded-lg text-sm text-white bg-black hover:bg-gray-900 flex items-center gap-1.5 whitespace-nowrap"
+                            >
+                                {copied ? <Check size={14} /> : <Copy size={14} />}
+                                {copied ? t.share.copied : t.share.copy}
+                            </button>
+                        </div>
+                        {share.expiresAt && (
+                            <p className="text-xs text-gray-500">
+                                {formatMessage(t.share.expiresAt, { date: share.expiresAt.toLocaleDateString(toDateLocale(locale)) })}
+                            </p>
+                        )}
+                        <button
+                            onClick={() => run(onRevoke, t.share.revokeFailed)}
+                            disabled={isBusy}
+                            className="text-sm text-red-600 hover:text-red-700 underline underline-offset-2 disabled:opacity-50"
+                        >
+                            {isBusy ? t.share.revoking : t.share.revoke}
+                        </button>
+                    </div>
+                ) : (
+                    <div className="mt-4 flex items-center justify-between gap-3">
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                            {t.share.expiry}
+                            <select
+                                value={expiresInDays ?? ''}
+                                onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : undefined)}
+                                className="px-2 py-1 rounded-md border border-gray-200 bg-white text-sm"
+                            >
+                                {expiryOptions.map((days) => (
+                                    <option key={days ?? 'none'} value={days ?? ''}>
+                                        {days ? formatMessage(t.share.expiryDays, { days }) : t.share.expiryNone}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <button
+                            onClick={() => run(() => onCreate(expiresInDays), t.share.createFailed)}
+                            disabled={isBusy}
+                            className="px-3 py-2 rounded-lg text-sm text-white bg-black hover:bg-gray-900 disabled:opacity-50"
+                        >
+                            {isBusy ? t.share.creating : t.share.create}
+                        </button>
+                    </div>
+                )}
+                {error && <p className="mt-3 text-xs text-red-600" role="alert">{error}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default ShareDialog;
@@ -0,0 +1,43 @@
+// lib/adminAuth.ts
+// 管理画面 (/admin) の Basic 認証
+// 外部の認証基盤は使わず、環境変数のローカルの ID とパスワードで守る。
+export interface AdminCredentials {
+    username: string;
+    password: string;
+}
+
+/** ADMIN_PASSWORD が未設定の場合は管理画面を無効にする (null) */
+export const getAdminCredentials = (): AdminCredentials | null => {
+    const password = process.env.ADMIN_PASSWORD;
+    return password ? { username: process.env.ADMIN_USERNAME || 'admin', password } : null;
+};
+
+const digest = async (text: string) =>
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+// 一致した位置や長さで処理時間が変わらないよう、ハッシュにしてからすべてのバイトを比べる
+const safeEqual = async (a: string, b: string) => {
+    const [x, y] = await Promise.all([digest(a), digest(b)]);
+    let diff = 0;
+    for (let i = 0; i < x.length; i++) diff |= x[i] ^ y[i];
+    return diff === 0;
+};
+
+/** Authorization: Basic <base64(username:password)> を確かめる */
+export const verifyBasicAuth = async (authorization: string | null, credentials: AdminCredentials) => {
+    if (!authorization?.startsWith('Basic ')) return false;
+    let decoded: string;
+    try {
+        decoded = new TextDecoder().decode(Uint8Array.from(atob(authorization.substring(6).trim()), (char) => char.charCodeAt(0)));
+    } catch {
+        return false;
+    }
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return false;
+
+    const [usernameOk, passwordOk] = await Promise.all([
+        safeEqual(decoded.substring(0, separator), credentials.username),
+        safeEqual(decoded.substring(separator + 1), credentials.password),
+    ]);
+    return usernameOk && passwordOk;
+};
@@ -0,0 +1,62 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAnalyticsReporter } from '@/lib/analytics';
+import { createJsonlAnalyticsStore } from '@/lib/analyticsStore';
+import { JsonlFileFullError } from '@/lib/jsonlFile';
+import { createLogger } from '@/lib/logger';
+import type { AnalyticsEvent } from '@/types/analytics';
+
+const log = createLogger('error', {}, () => {});
+
+const event: AnalyticsEvent = {
+    id: 'a1',
+    createdAt: '2026-10-01T00:00:00.000Z',
+    requestId: 'r1',
+    status: 200,
+    ttfbMs: 120,
+};
+
+describe('createAnalyticsReporter', () => {
+    it('設定した URL にトークンを付けて送る', async () => {
+        const fetchImpl = vi.fn(async () => new Response(null, { status: 204 }));
+        const report = createAnalyticsReporter({ token: 'secret', url: 'https://chat.example.ac.jp/api/analytics', fetchImpl });
+        await report(event, log);
+        expect(fetchImpl).toHaveBeenCalledWith('https://chat.example.ac.jp/api/analytics', expect.objectContaining({
+            method: 'POST',
+            headers: expect.objectContaining({ Authorization: 'Bearer secret' }),
+            body: JSON.stringify(event),
+        }));
+    });
+
+    it('送信に失敗しても reject しない', async () => {
+        const report = createAnalyticsReporter({
+            token: 'secret',
+            url: 'https://chat.example.ac.jp/api/analytics',
+            fetchImpl: async () => { throw new Error('network'); },
+        });
+        await expect(report(event, log)).resolves.toBeUndefined();
+    });
+});
+
+describe('createJsonlAnalyticsStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'senpaichat-analytics-'));
+    });
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('ファイルが上限の大きさに達したら保存を断る', async () => {
+        const size = Buffer.byteLength(`${JSON.stringify(event)}\n`);
+        const store = createJsonlAnalyticsStore(join(directory, 'analytics.jsonl'), size * 2);
+
+        await store.save(event);
+        await store.save({ ...event, id: 'a2' });
+        await expect(store.save({ ...event, id: 'a3' })).rejects.toBeInstanceOf(JsonlFileFullError);
+        expect((await store.list()).map((item) => item.id)).toEqual(['a1', 'a2']);
+    });
+});
@@ -0,0 +1,71 @@
+// lib/analytics.ts
+// /api/generate から利用状況の記録を /api/analytics に送る
+// 記録の保存は /api/analytics (AnalyticsStore) にまとめている。
+// 送信先は ANALYTICS_INGEST_URL で設定する (トークンを送るため、リクエストの Host ヘッダーからは決めない)。
+// 送信は回答の邪魔をしないようレスポンスの後に行い、失敗してもログに残すだけにする。
+import { logger, type Logger } from '@/lib/logger';
+import type { AnalyticsEvent } from '@/types/analytics';
+
+const MAX_QUERY_LENGTH = 500;
+
+export interface AnalyticsReporterOptions {
+    token: string; // /api/analytics の Bearer トークン
+    url: string; // 送信先 (/api/analytics の絶対 URL)
+    fetchImpl?: typeof fetch;
+}
+
+/** 記録を送る関数を作る (返す Promise は送信が終わると解決し、失敗しても reject しない) */
+export const createAnalyticsReporter = ({ token, url, fetchImpl = fetch }: AnalyticsReporterOptions) =>
+    (event: AnalyticsEvent, log: Logger = logger): Promise<void> =>
+        fetchImpl(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+            body: JSON.stringify(event),
+        })
+            .then((response) => {
+                if (!response.ok) log.warn('analytics.report_failed', { status: response.status });
+            })
+            .catch((err) => log.warn('analytics.report_failed', { error: err }));
+
+export type AnalyticsReporter = ReturnType<typeof createAnalyticsReporter>;
+
+export type AnalyticsValidationResult =
+    | { ok: true; event: AnalyticsEvent }
+    | { ok: false; error: string };
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+/** /api/analytics に送られた記録を検証する (知らない項目は保存しない) */
+export const validateAnalyticsEvent = (body: unknown): AnalyticsValidationResult => {
+    if (typeof body !== 'object' || body === null) {
+        return { ok: false, error: 'Request body must be a JSON object.' };
+    }
+    const value = body as Record<string, unknown>;
+    if (typeof value.requestId !== 'string' || !Number.isInteger(value.status) || optionalNumber(value.ttfbMs) === undefined) {
+        return { ok: false, error: 'requestId, status and ttfbMs are required.' };
+    }
+    const createdAt = optionalString(value.createdAt);
+    if (!createdAt || Number.isNaN(Date.parse(createdAt))) {
+        return { ok: false, error: 'createdAt must be an ISO 8601 date.' };
+    }
+
+    return {
+        ok: true,
+        event: {
+            id: optionalString(value.id) ?? crypto.randomUUID(),
+            createdAt,
+            requestId: value.requestId,
+            status: value.status as number,
+            code: optionalString(value.code),
+            backend: optionalString(value.backend),
+            locale: optionalString(value.locale),
+            cache: value.cache === 'HIT' || value.cache === 'MISS' || value.cache === 'BYPASS' ? value.cache : undefined,
+            query: optionalString(value.query)?.substring(0, MAX_QUERY_LENGTH),
+            ttfbMs: value.ttfbMs as number,
+            durationMs: optionalNumber(value.durationMs),
+            tokens: optionalNumber(value.tokens),
+            outcome: value.outcome === 'completed' || value.outcome === 'error' || value.outcome === 'cancelled' ? value.outcome : undefined,
+        },
+    };
+};
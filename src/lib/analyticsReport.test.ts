@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { groupSimilarQuestions, isUnanswered } from '@/lib/analyticsReport';
+import type { AnalyticsEvent } from '@/types/analytics';
+
+const event = (fields: Partial<AnalyticsEvent>): AnalyticsEvent => ({
+    id: 'a1',
+    createdAt: '2026-10-01T00:00:00.000Z',
+    requestId: 'r1',
+    status: 200,
+    ttfbMs: 100,
+    query: '学費の分納はできますか',
+    ...fields,
+});
+
+describe('isUnanswered', () => {
+    it('上流の失敗と空の回答を数える', () => {
+        expect(isUnanswered(event({ status: 502, code: 'UPSTREAM_ERROR' }))).toBe(true);
+        expect(isUnanswered(event({ outcome: 'error', code: 'UPSTREAM_IDLE_TIMEOUT' }))).toBe(true);
+        expect(isUnanswered(event({ outcome: 'completed', tokens: 0 }))).toBe(true);
+    });
+
+    it('RAG に届いていない 4xx とクライアントの切断、回答できた質問は数えない', () => {
+        for (const status of [400, 422, 429, 499]) {
+            expect(isUnanswered(event({ status }))).toBe(false);
+        }
+        expect(isUnanswered(event({ outcome: 'cancelled', tokens: 0 }))).toBe(false);
+        expect(isUnanswered(event({ outcome: 'completed', tokens: 42 }))).toBe(false);
+    });
+});
+
+describe('groupSimilarQuestions', () => {
+    it('表記ゆれと似た質問をまとめ、件数の多い順に返す', () => {
+        const queries = ['学費の分納はできますか', '学費の分納はできますか？', '学費の分納はできますか', '寮の門限は何時ですか'];
+        const groups = groupSimilarQuestions(queries, (query) => query);
+        expect(groups.map(({ representative, count }) => ({ representative, count }))).toEqual([
+            { representative: '学費の分納はできますか', count: 3 },
+            { representative: '寮の門限は何時ですか', count: 1 },
+        ]);
+    });
+});
@@ -0,0 +1,143 @@
+// lib/analyticsReport.ts
+// 管理画面の集計: 日ごとの質問数、レイテンシのパーセンタイル、エラー率、よく聞かれる質問
+// 似た質問は表記ゆれを吸収したうえで文字の 2-gram の一致率 (Jaccard 係数) でまとめる。
+// 日本語は単語の区切りがないため、単語ではなく文字単位で比べる。
+import { normalizeQuery } from '@/lib/answerCache';
+import type { AnalyticsEvent } from '@/types/analytics';
+
+export interface LatencyPercentiles {
+    p50?: number;
+    p90?: number;
+    p99?: number;
+}
+
+export interface UsageSummary {
+    queries: number;
+    errors: number; // 5xx とストリーム途中のエラー
+    rejected: number; // 4xx (レート制限や入力の検査など)
+    cacheHits: number;
+    errorRate: number; // errors / queries (0〜1)
+    ttfb: LatencyPercentiles; // 回答のストリームが始まるまで (ms)
+    duration: LatencyPercentiles; // 最後まで届いた回答の所要時間 (ms)
+}
+
+export interface DailyUsage extends UsageSummary {
+    date: string; // YYYY-MM-DD
+}
+
+export interface QuestionGroup<T> {
+    representative: string; // グループでいちばん多い表記
+    count: number;
+    items: T[];
+}
+
+/** nearest-rank 法のパーセンタイル。値がなければ undefined */
+export const percentile = (values: number[], p: number) => {
+    if (values.length === 0) return undefined;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+};
+
+const percentiles = (values: number[]): LatencyPercentiles => ({
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    p99: percentile(values, 99),
+});
+
+const isError = (event: AnalyticsEvent) => event.status >= 500 || event.outcome === 'error';
+const isRejected = (event: AnalyticsEvent) => event.status >= 400 && event.status < 500;
+
+export const summarizeUsage = (events: AnalyticsEvent[]): UsageSummary => {
+    const errors = events.filter(isError).length;
+    return {
+        queries: events.length,
+        errors,
+        rejected: events.filter(isRejected).length,
+        cacheHits: events.filter((event) => event.cache === 'HIT').length,
+        errorRate: events.length > 0 ? errors / events.length : 0,
+        ttfb: percentiles(events.filter((event) => event.status === 200).map((event) => event.ttfbMs)),
+        duration: percentiles(events
+            .filter((event) => event.outcome === 'completed' && event.durationMs !== undefined)
+            .map((event) => event.durationMs as number)),
+    };
+};
+
+/** 日付のキー (timeZone での YYYY-MM-DD) */
+export const toDateKey = (date: Date, timeZone: string) =>
+    new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+/** 直近 days 日の日ごとの集計 (記録のない日も含め、古い順) */
+export const summarizeByDay = (events: AnalyticsEvent[], days: number, timeZone: string, now = new Date()): DailyUsage[] => {
+    const byDate = new Map<string, AnalyticsEvent[]>();
+    for (let offset = days - 1; offset >= 0; offset--) {
+        byDate.set(toDateKey(new Date(now.getTime() - offset * 24 * 60 * 60 * 1000), timeZone), []);
+    }
+    for (const event of events) {
+        byDate.get(toDateKey(new Date(event.createdAt), timeZone))?.push(event);
+    }
+    return Array.from(byDate, ([date, dayEvents]) => ({ date, ...summarizeUsage(dayEvents) }));
+};
+
+/**
+ * 回答できなかった質問 (上流が失敗した・回答が空だった)
+ * レート制限や入力の検査などの 4xx、クライアントの切断 (499) は RAG に届いていないため含めない。
+ */
+export const isUnanswered = (event: AnalyticsEvent) =>
+    Boolean(event.query) && (isError(event) || (event.outcome === 'completed' && event.tokens === 0));
+
+const toBigrams = (text: string) => {
+    const compact = text.replace(/\s/g, '');
+    if (compact.length < 2) return new Set([compact]);
+    const bigrams = new Set<string>();
+    for (let i = 0; i < compact.length - 1; i++) bigrams.add(compact.substring(i, i + 2));
+    return bigrams;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+    let intersection = 0;
+    for (const gram of a) if (b.has(gram)) intersection++;
+    return intersection / (a.size + b.size - intersection);
+};
+
+export interface GroupOptions {
+    threshold?: number; // 同じグループにする一致率 (0〜1)
+    limit?: number; // 返すグループの数
+    maxDistinct?: number; // 比べる質問の種類の上限 (多いものから)
+}
+
+/**
+ * 似た質問をまとめ、件数の多い順に返す
+ * 同じ表記 (normalizeQuery) の質問を先に数え、多いものから順に既存のグループの代表と比べる。
+ */
+export const groupSimilarQuestions = <T>(
+    items: T[],
+    getQuery: (item: T) => string,
+    { threshold = 0.5, limit = 20, maxDistinct = 2000 }: GroupOptions = {},
+): QuestionGroup<T>[] => {
+    const byText = new Map<string, T[]>();
+    for (const item of items) {
+        const text = normalizeQuery(getQuery(item));
+        if (!text) continue;
+        const textItems = byText.get(text);
+        if (textItems) textItems.push(item);
+        else byText.set(text, [item]);
+    }
+
+    const groups: { bigrams: Set<string>; items: T[]; representative: string }[] = [];
+    const distinct = Array.from(byText).sort(([, a], [, b]) => b.length - a.length).slice(0, maxDistinct);
+    for (const [text, textItems] of distinct) {
+        const bigrams = toBigrams(text);
+        const group = groups.find((candidate) => jaccard(candidate.bigrams, bigrams) >= threshold);
+        if (group) {
+            group.items.push(...textItems);
+        } else {
+            // 件数の多い表記から処理するため、最初の表記がグループの代表になる
+            groups.push({ bigrams, items: [...textItems], representative: getQuery(textItems[0]) });
+        }
+    }
+
+    return groups
+        .sort((a, b) => b.items.length - a.items.length)
+        .slice(0, limit)
+        .map(({ representative, items: groupItems }) => ({ representative, count: groupItems.length, items: groupItems }));
+};
@@ -0,0 +1,46 @@
+// lib/analyticsStore.ts
+// 利用状況の記録 (AnalyticsEvent) の保存先
+// 既定はローカルの JSON Lines ファイル。データベースなどに保存する場合は AnalyticsStore を実装して差し替える。
+import { appendJsonl, readJsonl } from '@/lib/jsonlFile';
+import type { AnalyticsEvent } from '@/types/analytics';
+
+export interface AnalyticsStore {
+    save: (event: AnalyticsEvent) => Promise<void>;
+    /** 古い順に返す */
+    list: (since?: Date) => Promise<AnalyticsEvent[]>;
+}
+
+const isSince = (event: AnalyticsEvent, since?: Date) => !since || new Date(event.createdAt) >= since;
+
+/** maxBytes を指定した場合、ファイルがその大きさに達したら JsonlFileFullError で保存を断る */
+export const createJsonlAnalyticsStore = (filePath: string, maxBytes?: number): AnalyticsStore => ({
+    save: (event) => appendJsonl(filePath, event, maxBytes),
+    list: async (since) => (await readJsonl<AnalyticsEvent>(filePath)).filter((event) => isSince(event, since)),
+});
+
+/** テスト用 */
+export const createMemoryAnalyticsStore = (): AnalyticsStore => {
+    const events: AnalyticsEvent[] = [];
+    return {
+        save: async (event) => {
+            events.push(event);
+        },
+        list: async (since) => events.filter((event) => isSince(event, since)),
+    };
+};
+
+let defaultStore: AnalyticsStore | null = null;
+
+/**
+ * API Route と管理画面で使う既定のストア
+ * ANALYTICS_STORE_PATH (既定は data/analytics.jsonl)、ANALYTICS_STORE_MAX_BYTES (既定は 50 MB)
+ */
+export const getAnalyticsStore = (): AnalyticsStore => {
+    if (!defaultStore) {
+        defaultStore = createJsonlAnalyticsStore(
+            process.env.ANALYTICS_STORE_PATH || 'data/analytics.jsonl',
+            Number(process.env.ANALYTICS_STORE_MAX_BYTES) || 50 * 1024 * 1024,
+        );
+    }
+    return defaultStore;
+};
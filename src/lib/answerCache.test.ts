@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createAnswerCacheKey,
+    createMemoryAnswerCacheStore,
+    normalizeQuery,
+    recordAnswerStream,
+    replayAnswerStream,
+    type AnswerCacheEntry,
+} from '@/lib/answerCache';
+
+const entry = (key: string, body = 'data: x\n\n', tags: string[] = []): AnswerCacheEntry => ({
+    key,
+    body,
+    tags,
+    createdAt: 0,
+    expiresAt: 1000,
+});
+
+const streamOf = (...chunks: string[]) =>
+    new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+            controller.close();
+        },
+    });
+
+// ストリームを最後まで読み、onComplete に渡された内容を返す
+const record = async (...chunks: string[]) => {
+    const completed: { body: string; sourceTags: string[] }[] = [];
+    const text = await new Response(recordAnswerStream(streamOf(...chunks), (body, sourceTags) => completed.push({ body, sourceTags }))).text();
+    return { text, completed };
+};
+
+describe('createMemoryAnswerCacheStore', () => {
+    it('期限が切れたエントリは返さない', async () => {
+        const store = createMemoryAnswerCacheStore({ maxEntries: 10, maxBytes: 1000 });
+        await store.set(entry('a'));
+        expect(await store.get('a', 999)).not.toBeNull();
+        expect(await store.get('a', 1000)).toBeNull();
+    });
+
+    it('件数の上限を超えたら最も長く使われていないものから捨てる', async () => {
+        const store = createMemoryAnswerCacheStore({ maxEntries: 2, maxBytes: 1000 });
+        await store.set(entry('a'));
+        await store.set(entry('b'));
+        await store.get('a', 0);
+        await store.set(entry('c'));
+        expect(await store.get('a', 0)).not.toBeNull();
+        expect(await store.get('b', 0)).toBeNull();
+        expect(await store.get('c', 0)).not.toBeNull();
+    });
+
+    it('合計サイズの上限を超えたら古いものから捨て、上限より大きいものは保存しない', async () => {
+        const store = createMemoryAnswerCacheStore({ maxEntries: 10, maxBytes: 10 });
+        await store.set(entry('a', '12345'));
+        await store.set(entry('b', '123456'));
+        expect(await store.get('a', 0)).toBeNull();
+        expect(await store.get('b', 0)).not.toBeNull();
+        await store.set(entry('c', '12345678901'));
+        expect(await store.get('c', 0)).toBeNull();
+    });
+
+    it('キー・タグ・全体で削除できる', async () => {
+        const store = createMemoryAnswerCacheStore({ maxEntries: 10, maxBytes: 1000 });
+        await store.set(entry('a', 'x', ['locale:ja']));
+        await store.set(entry('b', 'x', ['locale:ja', 'source:https://example.ac.jp']));
+        await store.set(entry('c', 'x', ['locale:en']));
+        expect(await store.delete('missing')).toBe(false);
+        expect(await store.deleteByTag('locale:ja')).toBe(2);
+        expect(await store.clear()).toBe(1);
+    });
+});
+
+describe('createAnswerCacheKey', () => {
+    const context = { query: '学費は？', history: [], locale: 'ja', backend: 'default' };
+
+    it('表記ゆれは同じキーにする', async () => {
+        expect(normalizeQuery('  ＧＰＡ  の 計算？ ')).toBe('gpa の 計算');
+        expect(await createAnswerCacheKey({ ...context, query: ' 学費は?' })).toBe(await createAnswerCacheKey(context));
+    });
+
+    it('言語・アシスタント・会話履歴が違えば別のキーにする', async () => {
+        const key = await createAnswerCacheKey(context);
+        expect(await createAnswerCacheKey({ ...context, locale: 'en' })).not.toBe(key);
+        expect(await createAnswerCacheKey({ ...context, backend: 'admissions' })).not.toBe(key);
+        expect(await createAnswerCacheKey({ ...context, history: [{ role: 'user', content: '寮について' }] })).not.toBe(key);
+    });
+});
+
+describe('recordAnswerStream', () => {
+    it('ストリームをそのまま転送し、終了マーカーまで届いた回答を出典のタグ付きで渡す', async () => {
+        const chunks = ['data: 回答</chank>', 'event: sources\ndata: [{"title":"便覧","url":"https://example.ac.jp/a"}]\n\n', 'data: <end></chank>'];
+        const { text, completed } = await record(...chunks);
+        expect(text).toBe(chunks.join(''));
+        expect(completed).toEqual([{ body: chunks.join(''), sourceTags: ['source:https://example.ac.jp/a'] }]);
+    });
+
+    it('エラーイベントを含む回答は渡さない', async () => {
+        const { completed } = await record('data: 途中</chank>', 'event: error\ndata: failed\n\n');
+        expect(completed).toEqual([]);
+    });
+
+    it('終了マーカーがなくてもエラーなく閉じたら渡す', async () => {
+        const { completed } = await record('data: 回答\n\n');
+        expect(completed).toHaveLength(1);
+    });
+
+    it('保存した全文を同じストリームとして再生できる', async () => {
+        expect(await new Response(replayAnswerStream('data: 回答\n\n')).text()).toBe('data: 回答\n\n');
+    });
+});
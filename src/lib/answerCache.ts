@@ -0,0 +1,175 @@
+// lib/answerCache.ts
+// よくある質問の回答キャッシュ
+// 正規化した質問と文脈 (会話履歴・言語・アシスタント) をキーに、RAG API から届いた SSE ストリームをそのまま保存し、
+// ヒットした場合は同じ形式のストリームとして再生する (クライアントの処理は変わらない)。
+import { createSSEParser } from '@/lib/sse';
+import type { HistoryMessage } from '@/types/chat';
+
+export interface AnswerCacheEntry {
+    key: string;
+    body: string; // SSE ストリームの全文
+    tags: string[]; // まとめて無効化するためのタグ (locale:ja、source:<出典> など)
+    createdAt: number; // ms
+    expiresAt: number; // ms
+}
+
+/**
+ * キャッシュの保存先
+ * 複数インスタンスで共有する場合は Redis などで実装する。
+ */
+export interface AnswerCacheStore {
+    get: (key: string, now: number) => Promise<AnswerCacheEntry | null>;
+    set: (entry: AnswerCacheEntry) => Promise<void>;
+    delete: (key: string) => Promise<boolean>;
+    /** タグの付いたエントリをすべて削除し、削除した件数を返す */
+    deleteByTag: (tag: string) => Promise<number>;
+    /** すべて削除し、削除した件数を返す */
+    clear: () => Promise<number>;
+}
+
+export interface MemoryAnswerCacheLimits {
+    maxEntries: number;
+    maxBytes: number; // body の合計サイズ (UTF-16 の文字数で概算)
+}
+
+/** インスタンス内のメモリに保存するストア (上限を超えたら最も長く使われていないものから捨てる) */
+export const createMemoryAnswerCacheStore = ({ maxEntries, maxBytes }: MemoryAnswerCacheLimits): AnswerCacheStore => {
+    // Map の挿入順を利用した LRU
+    const entries = new Map<string, AnswerCacheEntry>();
+    let totalBytes = 0;
+
+    const remove = (key: string) => {
+        const entry = entries.get(key);
+        if (!entry) return false;
+        entries.delete(key);
+        totalBytes -= entry.body.length;
+        return true;
+    };
+
+    return {
+        get: async (key, now) => {
+            const entry = entries.get(key);
+            if (!entry) return null;
+            if (entry.expiresAt <= now) {
+                remove(key);
+                return null;
+            }
+            // 最近使ったものとして末尾に移す
+            entries.delete(key);
+            entries.set(key, entry);
+            return entry;
+        },
+        set: async (entry) => {
+            if (entry.body.length > maxBytes) return;
+            remove(entry.key);
+            entries.set(entry.key, entry);
+            totalBytes += entry.body.length;
+            for (const key of entries.keys()) {
+                if (entries.size <= maxEntries && totalBytes <= maxBytes) break;
+                remove(key);
+            }
+        },
+        delete: async (key) => remove(key),
+        deleteByTag: async (tag) => {
+            let count = 0;
+            for (const [key, entry] of entries) {
+                if (entry.tags.includes(tag) && remove(key)) count++;
+            }
+            return count;
+        },
+        clear: async () => {
+            const count = entries.size;
+            entries.clear();
+            totalBytes = 0;
+            return count;
+        },
+    };
+};
+
+/** 表記ゆれ (全角・半角、大文字・小文字、空白、末尾の記号) を吸収する */
+export const normalizeQuery = (query: string) =>
+    query
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/[?？!！。.]+$/u, '');
+
+export interface AnswerCacheContext {
+    query: string;
+    history: HistoryMessage[];
+    locale: string;
+    backend: string; // 回答したアシスタント (バックエンドごとに回答が異なる)
+}
+
+/** 質問と文脈から決まるキャッシュキー (SHA-256) */
+export const createAnswerCacheKey = async ({ query, history, locale, backend }: AnswerCacheContext) => {
+    const material = JSON.stringify({
+        query: normalizeQuery(query),
+        history: history.map(({ role, content }) => [role, normalizeQuery(content)]),
+        locale,
+        backend,
+    });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * ストリームをそのまま転送しつつ全文を記録し、回答が最後まで届いたら onComplete を呼ぶ。
+ * エラーイベントを含む回答や途中で切れた回答は渡さない。
+ * クライアントは終了マーカーを受け取ると読むのをやめるため、終了マーカーの時点で確定させる。
+ */
+export const recordAnswerStream = (
+    stream: ReadableStream<Uint8Array>,
+    onComplete: (body: string, sourceTags: string[]) => void,
+): ReadableStream<Uint8Array> => {
+    const decoder = new TextDecoder();
+    const parser = createSSEParser();
+    let body = '';
+    let sourceTags: string[] = [];
+    let hasError = false;
+    let completed = false;
+
+    const complete = () => {
+        if (completed || hasError || body === '') return;
+        completed = true;
+        onComplete(body, sourceTags);
+    };
+
+    const track = (text: string) => {
+        body += text;
+        for (const event of parser.feed(text)) {
+            if (event.type === 'error') hasError = true;
+            if (event.type === 'sources') {
+                sourceTags = event.sources.map((source) => `source:${source.url ?? source.title}`);
+            }
+            if (event.type === 'done') complete();
+        }
+    };
+
+    return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            controller.enqueue(chunk);
+            track(decoder.decode(chunk, { stream: true }));
+        },
+        flush() {
+            track(decoder.decode());
+            for (const event of parser.flush()) {
+                if (event.type === 'error') hasError = true;
+            }
+            // 終了マーカーを送らないバックエンドでは、エラーなく閉じた時点で完了とみなす
+            complete();
+        },
+    }));
+};
+
+/** 保存した SSE ストリームを再生する */
+export const replayAnswerStream = (body: string): ReadableStream<Uint8Array> => {
+    const encoded = new TextEncoder().encode(body);
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            controller.enqueue(encoded);
+            controller.close();
+        },
+    });
+};
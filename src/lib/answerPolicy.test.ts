@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { applyAnswerPolicy, getAnswerPolicy, type AnswerPolicy } from '@/lib/answerPolicy';
+
+const standard = getAnswerPolicy('standard');
+
+describe('applyAnswerPolicy', () => {
+    it('standard: <think> の区間を取り除く', () => {
+        expect(applyAnswerPolicy('<think>規則を確認する</think>寮の門限は22時です。', standard)).toEqual({
+            text: '寮の門限は22時です。',
+            applied: [{ id: 'strip-think', type: 'strip-section', index: 0 }],
+        });
+    });
+
+    it('strip-section: 終わりの印がまだ届いていなければ末尾まで取り除く', () => {
+        expect(applyAnswerPolicy('門限は<think>まだ考え中', standard).text).toBe('門限は');
+    });
+
+    it('stop-at-marker: 一致した行で打ち切り、末尾の空白を落とす', () => {
+        const result = applyAnswerPolicy('門限は22時です。\n\n## まとめ\n- 22時', standard);
+        expect(result.text).toBe('門限は22時です。');
+        expect(result.applied.map((rule) => rule.id)).toEqual(['stop-at-summary-heading']);
+    });
+
+    it('allow-list の範囲 (URL・小数) は他のルールの対象にしない', () => {
+        const policy: AnswerPolicy = {
+            name: 'test',
+            rules: [
+                { id: 'keep-urls', type: 'allow-list', patterns: ['https?://[^\\s)]+'] },
+                { id: 'keep-decimals', type: 'allow-list', patterns: ['\\d+\\.\\d+'] },
+                { id: 'stop-at-hash', type: 'stop-at-marker', pattern: '#' },
+                { id: 'stop-at-period', type: 'stop-at-marker', pattern: '\\.' },
+            ],
+        };
+        expect(applyAnswerPolicy('https://example.ac.jp/#access を見てください # 以下略', policy).text)
+            .toBe('https://example.ac.jp/#access を見てください');
+        expect(applyAnswerPolicy('GPA は 3.5 以上が必要です. 以下略', policy).text).toBe('GPA は 3.5 以上が必要です');
+    });
+
+    it('legacy: 見出しや箇条書きが始まったら打ち切る', () => {
+        expect(applyAnswerPolicy('学費は https://example.ac.jp/fees を見てください。\n- 前期', getAnswerPolicy('legacy')).text)
+            .toBe('学費は https://example.ac.jp/fees を見てください。');
+    });
+});
+
+describe('getAnswerPolicy', () => {
+    it('未定義の名前なら既定のポリシーを返す', () => {
+        expect(getAnswerPolicy('missing').name).toBe('standard');
+        expect(getAnswerPolicy('none').rules).toEqual([]);
+    });
+});
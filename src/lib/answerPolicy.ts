@@ -0,0 +1,132 @@
+// lib/answerPolicy.ts
+// 回答全文に適用する後処理ポリシー
+// ルールは src/config/answer-policies.json に宣言的に定義し、デプロイごとに
+// NEXT_PUBLIC_ANSWER_POLICY でどのポリシーを使うかを切り替える。
+import policyConfig from '@/config/answer-policies.json';
+import { debugLog } from '@/lib/debug';
+
+export type AnswerRule =
+    // start から end までの区間を取り除く (end がなければ末尾まで)
+    | { id: string; type: 'strip-section'; start: string; end?: string; flags?: string }
+    // pattern に最初に一致した位置で回答を打ち切る
+    | { id: string; type: 'stop-at-marker'; pattern: string; flags?: string }
+    // 一致した範囲は他のルールの対象から除外する (URL や小数など)
+    | { id: string; type: 'allow-list'; patterns: string[]; flags?: string };
+
+export interface AnswerPolicyConfig {
+    default: string;
+    policies: Record<string, AnswerRule[]>;
+}
+
+export interface AnswerPolicy {
+    name: string;
+    rules: AnswerRule[];
+}
+
+/** 発火したルールの記録 (デバッグ表示用) */
+export interface AppliedRule {
+    id: string;
+    type: AnswerRule['type'];
+    index: number; // 元のテキスト上ではなく、そのルール適用時点のテキスト上の位置
+}
+
+export interface AnswerPolicyResult {
+    text: string;
+    applied: AppliedRule[];
+}
+
+// ^ や $ を行単位で使えるよう、既定で m フラグを付ける
+const toRegExp = (pattern: string, flags = 'm') =>
+    new RegExp(pattern, Array.from(new Set(`${flags}g`)).join(''));
+
+type Range = [number, number];
+
+const collectAllowedRanges = (text: string, rules: AnswerRule[]): Range[] => {
+    const ranges: Range[] = [];
+    for (const rule of rules) {
+        if (rule.type !== 'allow-list') continue;
+        for (const pattern of rule.patterns) {
+            for (const match of text.matchAll(toRegExp(pattern, rule.flags))) {
+                if (match[0].length > 0) ranges.push([match.index, match.index + match[0].length]);
+            }
+        }
+    }
+    return ranges;
+};
+
+const isAllowed = (index: number, ranges: Range[]) =>
+    ranges.some(([start, end]) => index >= start && index < end);
+
+// 許可範囲に含まれない最初の一致を探す
+const findMatch = (text: string, pattern: RegExp, ranges: Range[], from = 0) => {
+    pattern.lastIndex = from;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        if (!isAllowed(match.index, ranges)) return match;
+        if (match[0].length === 0) pattern.lastIndex++;
+    }
+    return null;
+};
+
+/**
+ * ポリシーのルールを定義順に回答全文へ適用する。
+ * ストリーミング中は受信済みの全文に対して毎回呼び出す想定。
+ */
+export const applyAnswerPolicy = (text: string, policy: AnswerPolicy): AnswerPolicyResult => {
+    const applied: AppliedRule[] = [];
+    let result = text;
+
+    for (const rule of policy.rules) {
+        if (rule.type === 'allow-list') continue;
+        const ranges = collectAllowedRanges(result, policy.rules);
+
+        if (rule.type === 'stop-at-marker') {
+            const match = findMatch(result, toRegExp(rule.pattern, rule.flags), ranges);
+            if (match) {
+                result = result.substring(0, match.index).trimEnd();
+                applied.push({ id: rule.id, type: rule.type, index: match.index });
+            }
+            continue;
+        }
+
+        // strip-section: 一致する区間をすべて取り除く
+        const start = toRegExp(rule.start, rule.flags);
+        const end = rule.end ? toRegExp(rule.end, rule.flags) : null;
+        let from = 0;
+        let startMatch: RegExpExecArray | null;
+        while ((startMatch = findMatch(result, start, ranges, from)) !== null) {
+            const sectionStart = startMatch.index;
+            let sectionEnd = result.length;
+            if (end) {
+                end.lastIndex = sectionStart + startMatch[0].length;
+                const endMatch = end.exec(result);
+                if (endMatch) sectionEnd = endMatch.index + endMatch[0].length;
+            }
+            // 空の区間しか一致しない場合は無限ループを避けるため打ち切る
+            if (sectionEnd === sectionStart) break;
+            result = result.substring(0, sectionStart) + result.substring(sectionEnd);
+            applied.push({ id: rule.id, type: rule.type, index: sectionStart });
+            ranges.splice(0, ranges.length, ...collectAllowedRanges(result, policy.rules));
+            from = sectionStart;
+        }
+    }
+
+    return { text: result, applied };
+};
+
+/** 名前を指定してポリシーを取得する。未定義の名前なら既定のポリシーを返す */
+export const getAnswerPolicy = (
+    name: string | undefined = process.env.NEXT_PUBLIC_ANSWER_POLICY,
+    config: AnswerPolicyConfig = policyConfig as AnswerPolicyConfig,
+): AnswerPolicy => {
+    if (name && config.policies[name]) {
+        return { name, rules: config.policies[name] };
+    }
+    if (name) {
+        debugLog(`Answer policy "${name}" is not defined. Falling back to "${config.default}".`);
+    }
+    return { name: config.default, rules: config.policies[config.default] ?? [] };
+};
+
+/** どのルールが発火したかを UI に表示するか */
+export const isAnswerPolicyDebugEnabled = () => process.env.NEXT_PUBLIC_ANSWER_POLICY_DEBUG === 'true';
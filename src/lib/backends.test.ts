@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { createBackendRegistry, findRequestedBackend, type BackendConfig } from '@/lib/backends';
+
+const config: BackendConfig = {
+    default: 'senpai',
+    backends: [
+        { id: 'senpai', name: '先輩', description: '', urlEnv: 'RAG_API_URL' },
+        { id: 'advisor', name: 'アドバイザー', description: '', urlEnv: 'RAG_API_URL_ADVISOR' },
+    ],
+};
+// advisor は URL が未設定 (本番では一覧に出さない)
+const registry = createBackendRegistry(config, { env: { RAG_API_URL: 'https://rag.example.ac.jp/generate' } });
+
+describe('findRequestedBackend', () => {
+    it('省略した場合は既定のバックエンドを選ぶ', () => {
+        const lookup = findRequestedBackend(registry, undefined);
+        expect(lookup.ok && lookup.backend.entry.id).toBe('senpai');
+    });
+
+    it('未定義の id と文字列でない値は選べない', () => {
+        expect(findRequestedBackend(registry, 'unknown')).toEqual({ ok: false, error: 'Unknown backend: unknown' });
+        expect(findRequestedBackend(registry, 1)).toEqual({ ok: false, error: 'backend must be a string.' });
+    });
+
+    it('接続先のないバックエンドは未定義の id と同じに扱う', () => {
+        expect(findRequestedBackend(registry, 'advisor')).toEqual({ ok: false, error: 'Unknown backend: advisor' });
+    });
+});
@@ -0,0 +1,116 @@
+// lib/backends.ts
+// 選択できるアシスタント (RAG バックエンド) の一覧
+// アシスタントは src/config/backends.json に定義する。URL と認証トークンは設定ファイルに書かず、
+// urlEnv / auth.tokenEnv で指定した環境変数から読む。
+import backendConfig from '@/config/backends.json';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+import type { UpstreamProtocol } from '@/lib/upstreamAdapters';
+import type { BackendSummary, BackendsResponse } from '@/types/backend';
+
+export interface BackendEntry {
+    id: string;
+    name: string;
+    description: string;
+    translations?: Partial<Record<Locale, { name?: string; description?: string }>>;
+    avatar?: string;
+    urlEnv: string; // RAG API の URL を持つ環境変数の名前
+    protocol?: UpstreamProtocol; // RAG API の方式 (lib/upstreamAdapters.ts)。省略時は fastapi
+    model?: string; // protocol: openai で指定するモデル名
+    systemPrompt?: string; // protocol: openai の system メッセージ
+    headers?: Record<string, string>; // RAG API に付ける固定のヘッダー (秘密の値は auth を使う)
+    // RAG API に付ける認証ヘッダー (トークンの環境変数が未設定なら付けない)
+    auth?: { header: string; scheme?: string; tokenEnv: string };
+    sampleQuestionCategories?: string[]; // 表示する質問例のカテゴリ (省略時はすべて)
+}
+
+export interface BackendConfig {
+    default: string;
+    backends: BackendEntry[];
+}
+
+export interface ResolvedBackend {
+    entry: BackendEntry;
+    url: string | undefined;
+    headers: Record<string, string>; // 固定のヘッダーと認証ヘッダー
+    useMock: boolean; // 組み込みのモック (lib/mockRag.ts) に転送する
+}
+
+export interface BackendRegistryOptions {
+    env?: Record<string, string | undefined>;
+    mock?: boolean; // すべてのバックエンドをモックにする (RAG_API_MOCK=true)
+    mockWhenUnset?: boolean; // URL が未設定のバックエンドをモックにする (開発中)
+}
+
+const resolveBackend = (
+    entry: BackendEntry,
+    { env = process.env, mock = false, mockWhenUnset = false }: BackendRegistryOptions,
+): ResolvedBackend => {
+    const url = env[entry.urlEnv] || undefined;
+    const token = entry.auth && env[entry.auth.tokenEnv];
+    const headers: Record<string, string> = { ...entry.headers };
+    if (entry.auth && token) {
+        headers[entry.auth.header] = entry.auth.scheme ? `${entry.auth.scheme} ${token}` : token;
+    }
+    return { entry, url, headers, useMock: mock || (!url && mockWhenUnset) };
+};
+
+/** 接続先 (URL またはモック) のあるバックエンドだけを利用者に見せる */
+export const isBackendAvailable = (backend: ResolvedBackend) => backend.useMock || backend.url !== undefined;
+
+export const createBackendRegistry = (
+    config: BackendConfig = backendConfig as BackendConfig,
+    options: BackendRegistryOptions = {},
+) => {
+    const backends = config.backends.map((entry) => resolveBackend(entry, options));
+    const byId = new Map(backends.map((backend) => [backend.entry.id, backend]));
+
+    return {
+        defaultId: config.default,
+        /** id を省略した場合は既定のバックエンド。未定義の id なら undefined */
+        get: (id?: string) => byId.get(id ?? config.default),
+        list: () => backends,
+    };
+};
+
+export type BackendRegistry = ReturnType<typeof createBackendRegistry>;
+
+export type BackendLookupResult =
+    | { ok: true; backend: ResolvedBackend }
+    | { ok: false; error: string };
+
+/**
+ * リクエストの backend からバックエンドを選ぶ (省略時は既定のバックエンド)
+ * 一覧 (listBackendSummaries) に出していない、接続先のないバックエンドは未定義の id と同じに扱う。
+ */
+export const findRequestedBackend = (registry: BackendRegistry, id: unknown): BackendLookupResult => {
+    if (id !== undefined && typeof id !== 'string') return { ok: false, error: 'backend must be a string.' };
+    const backend = registry.get(id);
+    if (!backend || (id !== undefined && !isBackendAvailable(backend))) {
+        return { ok: false, error: `Unknown backend: ${id}` };
+    }
+    return { ok: true, backend };
+};
+
+/** サーバーの環境変数から作るレジストリ */
+export const getBackendRegistry = (): BackendRegistry =>
+    createBackendRegistry(backendConfig as BackendConfig, {
+        mock: process.env.RAG_API_MOCK === 'true',
+        mockWhenUnset: process.env.NODE_ENV !== 'production',
+    });
+
+/** クライアントに返す情報 (表示する言語に翻訳する) */
+export const toBackendSummary = ({ id, name, description, translations, avatar }: BackendEntry, locale: Locale = DEFAULT_LOCALE): BackendSummary => {
+    const translation = locale !== DEFAULT_LOCALE ? translations?.[locale] : undefined;
+    return {
+        id,
+        name: translation?.name || name,
+        description: translation?.description || description,
+        avatar,
+    };
+};
+
+/** 利用できるバックエンドの一覧 */
+export const listBackendSummaries = (registry: BackendRegistry, locale?: Locale): BackendsResponse => ({
+    default: registry.defaultId,
+    backends: registry.list().filter(isBackendAvailable).map(({ entry }) => toBackendSummary(entry, locale)),
+});
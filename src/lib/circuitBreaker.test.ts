@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createCircuitBreaker } from '@/lib/circuitBreaker';
+
+const setup = () => {
+    let time = 0;
+    const breaker = createCircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 }, () => time);
+    return { breaker, advance: (ms: number) => (time += ms) };
+};
+
+describe('createCircuitBreaker', () => {
+    it('連続した失敗が閾値に達したら open にする', () => {
+        const { breaker } = setup();
+        breaker.recordFailure();
+        expect(breaker.state).toBe('closed');
+        expect(breaker.canRequest()).toBe(true);
+        breaker.recordFailure();
+        expect(breaker.state).toBe('open');
+        expect(breaker.canRequest()).toBe(false);
+        expect(breaker.retryAfterMs()).toBe(1000);
+    });
+
+    it('成功すると連続失敗の回数を数え直す', () => {
+        const { breaker } = setup();
+        breaker.recordFailure();
+        breaker.recordSuccess();
+        breaker.recordFailure();
+        expect(breaker.state).toBe('closed');
+    });
+
+    it('half-open では 1 件だけ試行を許可し、成功したら closed に戻す', () => {
+        const { breaker, advance } = setup();
+        breaker.recordFailure();
+        breaker.recordFailure();
+        advance(1000);
+        expect(breaker.canRequest()).toBe(true);
+        expect(breaker.state).toBe('half-open');
+        expect(breaker.canRequest()).toBe(false);
+        breaker.recordSuccess();
+        expect(breaker.state).toBe('closed');
+        expect(breaker.canRequest()).toBe(true);
+    });
+
+    it('half-open の試行が失敗したら再び open にする', () => {
+        const { breaker, advance } = setup();
+        breaker.recordFailure();
+        breaker.recordFailure();
+        advance(1000);
+        breaker.canRequest();
+        breaker.recordFailure();
+        expect(breaker.state).toBe('open');
+        expect(breaker.canRequest()).toBe(false);
+    });
+
+    it('release で試行を取り消すと、次のリクエストが試行できる', () => {
+        const { breaker, advance } = setup();
+        breaker.recordFailure();
+        breaker.recordFailure();
+        advance(1000);
+        expect(breaker.canRequest()).toBe(true);
+        breaker.release();
+        expect(breaker.state).toBe('half-open');
+        expect(breaker.canRequest()).toBe(true);
+    });
+});
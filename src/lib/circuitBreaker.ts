@@ -0,0 +1,66 @@
+// lib/circuitBreaker.ts
+// 上流 (RAG API) への接続失敗が続いたときに、しばらくリクエストを送らずに即座に失敗させる
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number; // 連続でこの回数失敗したら open にする
+    resetTimeoutMs: number; // open にしてから試行を再開するまでの時間
+}
+
+export interface CircuitBreaker {
+    /** リクエストを送ってよいか (half-open では 1 件だけ試行を許可する) */
+    canRequest: () => boolean;
+    recordSuccess: () => void;
+    recordFailure: () => void;
+    /** 結果を記録せずに試行を取り消す (クライアントの切断などで上流の状態が分からなかった場合) */
+    release: () => void;
+    /** 試行を再開できるまでの残り時間 (ms) */
+    retryAfterMs: () => number;
+    readonly state: CircuitState;
+}
+
+export const createCircuitBreaker = (
+    { failureThreshold, resetTimeoutMs }: CircuitBreakerOptions,
+    now: () => number = Date.now,
+): CircuitBreaker => {
+    let state: CircuitState = 'closed';
+    let consecutiveFailures = 0;
+    let openedAt = 0;
+    let trialInFlight = false;
+
+    return {
+        canRequest: () => {
+            if (state === 'open' && now() - openedAt >= resetTimeoutMs) {
+                state = 'half-open';
+                trialInFlight = false;
+            }
+            if (state === 'closed') return true;
+            if (state === 'half-open' && !trialInFlight) {
+                trialInFlight = true;
+                return true;
+            }
+            return false;
+        },
+        recordSuccess: () => {
+            state = 'closed';
+            consecutiveFailures = 0;
+            trialInFlight = false;
+        },
+        recordFailure: () => {
+            consecutiveFailures++;
+            trialInFlight = false;
+            if (state === 'half-open' || consecutiveFailures >= failureThreshold) {
+                state = 'open';
+                openedAt = now();
+            }
+        },
+        release: () => {
+            trialInFlight = false;
+        },
+        retryAfterMs: () => (state === 'open' ? Math.max(0, resetTimeoutMs - (now() - openedAt)) : 0),
+        get state() {
+            return state;
+        },
+    };
+};
@@ -0,0 +1,181 @@
+// lib/conversationExport.ts
+// 会話の書き出し (Markdown / JSON) と、書き出した JSON の読み込み
+// JSON は CONVERSATION_EXPORT_VERSION で版を管理し、読み込み時に検証してから会話に戻す。
+import { formatMessage, toDateLocale, type Locale } from '@/lib/i18n';
+import type { Messages } from '@/locales/ja';
+import type { Conversation, Message, MessageFeedback, Source } from '@/types/chat';
+import {
+    CONVERSATION_EXPORT_FORMAT,
+    CONVERSATION_EXPORT_VERSION,
+    type ConversationExport,
+    type ExportedMessage,
+} from '@/types/conversationExport';
+import { FEEDBACK_REASONS, type FeedbackReason } from '@/types/feedback';
+
+const MAX_IMPORT_MESSAGES = 1000;
+
+/** 会話を JSON 書き出しの形に変換する */
+export const toConversationExport = (conversation: Conversation, exportedAt = new Date()): ConversationExport => ({
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        backendId: conversation.backendId,
+        createdAt: conversation.createdAt.toISOString(),
+        updatedAt: conversation.updatedAt.toISOString(),
+        messages: conversation.messages.map((msg): ExportedMessage => ({
+            id: msg.id,
+            role: msg.role,
+            content: msg.content,
+            timestamp: msg.timestamp?.toISOString(),
+            sources: msg.sources,
+            suggestions: msg.suggestions,
+            isError: msg.isError,
+            error: msg.error,
+            isStopped: msg.isStopped,
+            feedback: msg.feedback && { ...msg.feedback, submittedAt: msg.feedback.submittedAt.toISOString() },
+        })),
+    },
+});
+
+export type ConversationImportResult =
+    | { ok: true; conversation: Conversation }
+    | { ok: false; error: string };
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+
+const toDate = (value: unknown) => {
+    if (typeof value !== 'string') return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const toSources = (value: unknown): Source[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    return value
+        .filter((item) => typeof item === 'object' && item !== null && typeof item.title === 'string')
+        .map((item) => ({ title: item.title, url: optionalString(item.url), snippet: optionalString(item.snippet) }));
+};
+
+const toFeedback = (value: unknown): MessageFeedback | undefined => {
+    if (typeof value !== 'object' || value === null) return undefined;
+    const { rating, reason, submittedAt } = value as Record<string, unknown>;
+    if (rating !== 'up' && rating !== 'down') return undefined;
+    return {
+        rating,
+        reason: FEEDBACK_REASONS.includes(reason as FeedbackReason) ? reason as FeedbackReason : undefined,
+        submittedAt: toDate(submittedAt) ?? new Date(),
+    };
+};
+
+const toMessage = (value: unknown, index: number): Message | null => {
+    if (typeof value !== 'object' || value === null) return null;
+    const item = value as Record<string, unknown>;
+    if ((item.role !== 'user' && item.role !== 'assistant') || typeof item.content !== 'string') return null;
+
+    const error = typeof item.error === 'object' && item.error !== null && typeof (item.error as Record<string, unknown>).message === 'string'
+        ? { code: optionalString((item.error as Record<string, unknown>).code), message: (item.error as Record<string, string>).message }
+        : undefined;
+    return {
+        id: optionalString(item.id) ?? `${item.role}-imported-${index}`,
+        role: item.role,
+        content: item.content,
+        timestamp: toDate(item.timestamp),
+        sources: toSources(item.sources),
+        suggestions: Array.isArray(item.suggestions)
+            ? item.suggestions.filter((suggestion): suggestion is string => typeof suggestion === 'string')
+            : undefined,
+        isError: item.isError === true || error !== undefined || undefined,
+        error,
+        isStopped: item.isStopped === true || undefined,
+        feedback: toFeedback(item.feedback),
+    };
+};
+
+/** 書き出した JSON を検証して会話に戻す */
+export const parseConversationExport = (text: string): ConversationImportResult => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { ok: false, error: 'The file is not valid JSON.' };
+    }
+    if (typeof data !== 'object' || data === null || (data as Record<string, unknown>).format !== CONVERSATION_EXPORT_FORMAT) {
+        return { ok: false, error: 'The file is not a SenpaiChat conversation export.' };
+    }
+    const { version, conversation } = data as Record<string, unknown>;
+    if (typeof version !== 'number' || version < 1 || version > CONVERSATION_EXPORT_VERSION) {
+        return { ok: false, error: `Unsupported export version: ${version}.` };
+    }
+    if (typeof conversation !== 'object' || conversation === null) {
+        return { ok: false, error: 'conversation is missing.' };
+    }
+
+    const value = conversation as Record<string, unknown>;
+    if (!Array.isArray(value.messages) || value.messages.length === 0 || value.messages.length > MAX_IMPORT_MESSAGES) {
+        return { ok: false, error: `conversation.messages must contain 1 to ${MAX_IMPORT_MESSAGES} messages.` };
+    }
+    const messages = value.messages.map(toMessage);
+    const invalidIndex = messages.indexOf(null);
+    if (invalidIndex !== -1) {
+        return { ok: false, error: `conversation.messages[${invalidIndex}] must have a role and content.` };
+    }
+
+    const createdAt = toDate(value.createdAt) ?? new Date();
+    return {
+        ok: true,
+        conversation: {
+            id: optionalString(value.id) ?? `conversation-${createdAt.getTime()}`,
+            title: optionalString(value.title) ?? (messages[0] as Message).content.substring(0, 30),
+            messages: messages as Message[],
+            backendId: optionalString(value.backendId),
+            createdAt,
+            updatedAt: toDate(value.updatedAt) ?? createdAt,
+        },
+    };
+};
+
+export interface MarkdownExportOptions {
+    messages: Messages;
+    locale: Locale;
+    backendName?: string; // 会話で使ったアシスタントの表示名
+    exportedAt?: Date;
+}
+
+const formatDateTime = (date: Date, locale: Locale) =>
+    date.toLocaleString(toDateLocale(locale), { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatSource = (source: Source, index: number) =>
+    `${index + 1}. ${source.url ? `[${source.title}](${source.url})` : source.title}`;
+
+/** 読みやすい Markdown に書き出す (質問と回答を見出しで区切り、出典は番号付きのリストにする) */
+export const toMarkdown = (
+    conversation: Conversation,
+    { messages: t, locale, backendName, exportedAt = new Date() }: MarkdownExportOptions,
+) => {
+    const lines = [`# ${conversation.title}`, ''];
+    lines.push(`- ${t.export.exportedAt}: ${formatDateTime(exportedAt, locale)}`);
+    if (backendName) lines.push(`- ${t.backend.label}: ${backendName}`);
+
+    for (const msg of conversation.messages) {
+        const heading = msg.role === 'user' ? t.export.question : t.export.answer;
+        const time = msg.timestamp ? ` (${formatDateTime(msg.timestamp, locale)})` : '';
+        lines.push('', '---', '', `## ${heading}${time}`);
+        if (msg.content.trim()) lines.push('', msg.content.trim());
+        if (msg.isStopped) lines.push('', `> ${t.message.stopped}`);
+        if (msg.error) lines.push('', `> ${formatMessage(t.export.failedAnswer, { message: msg.error.message })}`);
+        if (msg.sources?.length) {
+            lines.push('', `**${t.export.sources}**`, '', ...msg.sources.map(formatSource));
+        }
+    }
+    return `${lines.join('\n')}\n`;
+};
+
+/** 書き出すファイルの名前 (タイトルからファイル名に使えない文字を除く) */
+export const createExportFileName = (conversation: Conversation, extension: string) => {
+    const title = conversation.title.replace(/[\\/:*?"<>|\s]+/g, '_').substring(0, 40) || 'conversation';
+    const date = conversation.updatedAt.toISOString().substring(0, 10);
+    return `senpaichat-${title}-${date}.${extension}`;
+};
@@ -0,0 +1,81 @@
+// lib/conversationStore.ts
+// 会話履歴をブラウザの IndexedDB に保存する
+import type { Conversation, ConversationShare } from '@/types/chat';
+
+const DB_NAME = 'senpaichat';
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** SSR 中やプライベートモードなど IndexedDB が使えない環境では false */
+export const isConversationStoreAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null; // 次回の呼び出しで再試行できるようにする
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE_NAME, mode);
+    return requestToPromise(run(transaction.objectStore(STORE_NAME)));
+};
+
+/** 保存されている会話を更新日時の新しい順に返す */
+export const listConversations = async (): Promise<Conversation[]> => {
+    const conversations = await withStore<Conversation[]>('readonly', (store) => store.getAll());
+    return conversations.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const getConversation = async (id: string): Promise<Conversation | undefined> =>
+    withStore<Conversation | undefined>('readonly', (store) => store.get(id));
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+    await withStore('readwrite', (store) => store.put(conversation));
+};
+
+export const renameConversation = async (id: string, title: string): Promise<void> => {
+    const conversation = await getConversation(id);
+    if (!conversation) return;
+    await saveConversation({ ...conversation, title, updatedAt: new Date() });
+};
+
+/** 作成した共有リンクを記録する (undefined で削除) */
+export const setConversationShare = async (id: string, share: ConversationShare | undefined): Promise<void> => {
+    const conversation = await getConversation(id);
+    if (!conversation) return;
+    await saveConversation({ ...conversation, share });
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+    await withStore('readwrite', (store) => store.delete(id));
+};
+
+/** 最初の質問から会話のタイトルを作る */
+export const createConversationTitle = (firstQuery: string, maxLength = 30) => {
+    const title = firstQuery.trim().replace(/\s+/g, ' ');
+    return title.length > maxLength ? `${title.substring(0, maxLength)}…` : title;
+};
@@ -0,0 +1,14 @@
+// lib/csv.ts
+
+const escapeCsvValue = (value: unknown) => {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** columns の順に列を並べた CSV を作る (Excel で文字化けしないよう BOM を付ける) */
+export const toCsv = <T extends object>(rows: T[], columns: (keyof T & string)[]) =>
+    '\uFEFF' + [
+        columns.join(','),
+        ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(',')),
+    ].join('\r\n');
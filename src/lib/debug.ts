@@ -0,0 +1,10 @@
+// lib/debug.ts
+// ブラウザ側のデバッグログ (ストリームの開始・終了など)
+// 本番ビルドでは出さない。開発中でも NEXT_PUBLIC_DEBUG_LOG=false で止められる。
+
+const isDebugLogEnabled =
+    process.env.NODE_ENV !== 'production' && process.env.NEXT_PUBLIC_DEBUG_LOG !== 'false';
+
+export const debugLog = (...args: unknown[]) => {
+    if (isDebugLogEnabled) console.debug(...args);
+};
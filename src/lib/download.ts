@@ -0,0 +1,14 @@
+// lib/download.ts
+// ブラウザで文字列をファイルとして保存させる
+
+export const downloadFile = (content: string, fileName: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // クリック直後に解放するとダウンロードが始まらないブラウザがあるため遅らせる
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,46 @@
+// lib/embed.ts
+// 学校のサイトなどに埋め込むチャット (/embed と public/embed.js)
+// 埋め込めるサイトは EMBED_ALLOWED_ORIGINS に列挙したオリジンに限る (未設定なら埋め込みを無効にする)。
+import { isLocale } from '@/lib/i18n';
+import type { EmbedConfig } from '@/types/embed';
+
+const MAX_QUESTION_LENGTH = 500;
+
+const toOrigin = (value: string) => {
+    try {
+        return new URL(value).origin;
+    } catch {
+        return null;
+    }
+};
+
+/** 埋め込みを許可するオリジン (カンマまたは空白区切り)。未設定なら null */
+export const getEmbedAllowedOrigins = (value = process.env.EMBED_ALLOWED_ORIGINS): string[] | null => {
+    const origins = (value ?? '')
+        .split(/[\s,]+/)
+        .map((origin) => (origin ? toOrigin(origin) : null))
+        .filter((origin): origin is string => origin !== null && origin !== 'null');
+    return origins.length > 0 ? origins : null;
+};
+
+/** URL やオリジンの文字列が許可したオリジンか */
+export const isEmbedOriginAllowed = (value: string | null | undefined, allowedOrigins: string[]) => {
+    const origin = value ? toOrigin(value) : null;
+    return origin !== null && allowedOrigins.includes(origin);
+};
+
+/** /embed のクエリパラメーターから設定を読む (不正な値は無視する) */
+export const parseEmbedConfig = (params: Record<string, string | string[] | undefined>): EmbedConfig => {
+    const get = (key: string) => {
+        const value = params[key];
+        return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+    };
+    const theme = get('theme');
+    const locale = get('locale');
+    return {
+        backend: get('backend'),
+        question: get('question')?.substring(0, MAX_QUESTION_LENGTH),
+        theme: theme === 'dark' || theme === 'light' ? theme : undefined,
+        locale: isLocale(locale) ? locale : undefined,
+    };
+};
@@ -0,0 +1,84 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { validateFeedback } from '@/lib/feedback';
+import { createJsonlFeedbackStore, createMemoryFeedbackStore } from '@/lib/feedbackStore';
+import { JsonlFileFullError } from '@/lib/jsonlFile';
+import type { FeedbackRecord } from '@/types/feedback';
+
+const payload = { rating: 'down', reason: 'outdated', comment: '情報が古い', query: '学費は?', answer: '50万円です', messageId: 'm1' };
+
+const record = (id: string, rating: 'up' | 'down', createdAt: string): FeedbackRecord => ({
+    ...payload,
+    rating,
+    reason: undefined,
+    id,
+    createdAt,
+});
+
+describe('validateFeedback', () => {
+    it('正しいフィードバックを受け付け、出典を整える', () => {
+        const result = validateFeedback({ ...payload, sources: [{ title: '学生便覧', url: '' }, { url: 'no title' }] });
+        expect(result).toEqual({
+            ok: true,
+            feedback: expect.objectContaining({ rating: 'down', reason: 'outdated', sources: [{ title: '学生便覧', url: undefined, snippet: undefined }] }),
+        });
+    });
+
+    it('評価・理由・必須項目が不正なら拒否する', () => {
+        expect(validateFeedback(null).ok).toBe(false);
+        expect(validateFeedback({ ...payload, rating: 'meh' }).ok).toBe(false);
+        expect(validateFeedback({ ...payload, reason: 'spam' }).ok).toBe(false);
+        expect(validateFeedback({ ...payload, messageId: '' }).ok).toBe(false);
+        expect(validateFeedback({ ...payload, answer: undefined }).ok).toBe(false);
+    });
+
+    it('長すぎるコメントは切り詰めずに拒否する', () => {
+        expect(validateFeedback({ ...payload, comment: 'あ'.repeat(1000) }).ok).toBe(true);
+        expect(validateFeedback({ ...payload, comment: 'あ'.repeat(1001) })).toEqual({
+            ok: false,
+            error: 'comment must be a string of at most 1000 characters.',
+        });
+    });
+});
+
+describe('createMemoryFeedbackStore', () => {
+    it('評価と日時で絞り込む', async () => {
+        const store = createMemoryFeedbackStore();
+        await store.save(record('a', 'up', '2025-04-01T00:00:00.000Z'));
+        await store.save(record('b', 'down', '2025-04-02T00:00:00.000Z'));
+        await store.save(record('c', 'down', '2025-03-31T00:00:00.000Z'));
+
+        expect((await store.list({ rating: 'down' })).map((item) => item.id)).toEqual(['b', 'c']);
+        expect((await store.list({ since: new Date('2025-04-01T00:00:00.000Z') })).map((item) => item.id)).toEqual(['a', 'b']);
+    });
+});
+
+describe('createJsonlFeedbackStore', () => {
+    let directory: string;
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'senpaichat-feedback-'));
+    });
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('追記したフィードバックを読み戻す', async () => {
+        const store = createJsonlFeedbackStore(join(directory, 'nested', 'feedback.jsonl'));
+        await store.save(record('a', 'up', '2025-04-01T00:00:00.000Z'));
+        await store.save(record('b', 'down', '2025-04-02T00:00:00.000Z'));
+        expect((await store.list()).map((item) => item.id)).toEqual(['a', 'b']);
+    });
+
+    it('ファイルが上限の大きさに達したら保存を断る', async () => {
+        const filePath = join(directory, 'feedback.jsonl');
+        const size = Buffer.byteLength(`${JSON.stringify(record('a', 'up', '2025-04-01T00:00:00.000Z'))}\n`);
+        const store = createJsonlFeedbackStore(filePath, size * 2);
+
+        await store.save(record('a', 'up', '2025-04-01T00:00:00.000Z'));
+        await store.save(record('b', 'up', '2025-04-01T00:00:00.000Z'));
+        await expect(store.save(record('c', 'up', '2025-04-01T00:00:00.000Z'))).rejects.toBeInstanceOf(JsonlFileFullError);
+        expect(await store.list()).toHaveLength(2);
+    });
+});
@@ -0,0 +1,63 @@
+// lib/feedback.ts
+// /api/feedback に送られたフィードバックの検証
+import { FEEDBACK_REASONS, MAX_FEEDBACK_COMMENT_LENGTH, type FeedbackPayload, type FeedbackReason } from '@/types/feedback';
+import type { Source } from '@/types/chat';
+
+const MAX_TEXT_LENGTH = 20000; // 質問・回答の最大文字数
+const MAX_SOURCES = 20;
+
+export type FeedbackValidationResult =
+    | { ok: true; feedback: FeedbackPayload }
+    | { ok: false; error: string };
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+
+const toSources = (value: unknown): Source[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    return value
+        .filter((item) => typeof item === 'object' && item !== null && typeof item.title === 'string')
+        .slice(0, MAX_SOURCES)
+        .map((item) => ({
+            title: item.title,
+            url: optionalString(item.url),
+            snippet: optionalString(item.snippet),
+        }));
+};
+
+export const validateFeedback = (body: unknown): FeedbackValidationResult => {
+    if (typeof body !== 'object' || body === null) {
+        return { ok: false, error: 'Request body must be a JSON object.' };
+    }
+    const value = body as Record<string, unknown>;
+
+    if (value.rating !== 'up' && value.rating !== 'down') {
+        return { ok: false, error: 'rating must be "up" or "down".' };
+    }
+    if (value.reason !== undefined && !FEEDBACK_REASONS.includes(value.reason as FeedbackReason)) {
+        return { ok: false, error: `reason must be one of: ${FEEDBACK_REASONS.join(', ')}.` };
+    }
+    if (value.comment !== undefined && (typeof value.comment !== 'string' || value.comment.length > MAX_FEEDBACK_COMMENT_LENGTH)) {
+        return { ok: false, error: `comment must be a string of at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters.` };
+    }
+    if (typeof value.query !== 'string' || typeof value.answer !== 'string') {
+        return { ok: false, error: 'query and answer are required.' };
+    }
+    if (typeof value.messageId !== 'string' || value.messageId === '') {
+        return { ok: false, error: 'messageId is required.' };
+    }
+
+    return {
+        ok: true,
+        feedback: {
+            rating: value.rating,
+            reason: value.reason as FeedbackReason | undefined,
+            comment: optionalString(value.comment),
+            query: value.query.substring(0, MAX_TEXT_LENGTH),
+            answer: value.answer.substring(0, MAX_TEXT_LENGTH),
+            messageId: value.messageId,
+            queryMessageId: optionalString(value.queryMessageId),
+            conversationId: optionalString(value.conversationId),
+            sources: toSources(value.sources),
+        },
+    };
+};
@@ -0,0 +1,53 @@
+// lib/feedbackStore.ts
+// 回答へのフィードバックの保存先
+// 既定はローカルの JSON Lines ファイル。データベースなどに保存する場合は FeedbackStore を実装して差し替える。
+import { appendJsonl, readJsonl } from '@/lib/jsonlFile';
+import type { FeedbackRating, FeedbackRecord } from '@/types/feedback';
+
+export interface FeedbackQuery {
+    rating?: FeedbackRating;
+    since?: Date;
+}
+
+export interface FeedbackStore {
+    save: (record: FeedbackRecord) => Promise<void>;
+    /** 古い順に返す */
+    list: (query?: FeedbackQuery) => Promise<FeedbackRecord[]>;
+}
+
+const matchesQuery = (record: FeedbackRecord, { rating, since }: FeedbackQuery) =>
+    (!rating || record.rating === rating) &&
+    (!since || new Date(record.createdAt) >= since);
+
+/** maxBytes を指定した場合、ファイルがその大きさに達したら JsonlFileFullError で保存を断る */
+export const createJsonlFeedbackStore = (filePath: string, maxBytes?: number): FeedbackStore => ({
+    save: (record) => appendJsonl(filePath, record, maxBytes),
+    list: async (query = {}) => (await readJsonl<FeedbackRecord>(filePath)).filter((record) => matchesQuery(record, query)),
+});
+
+/** テスト用 */
+export const createMemoryFeedbackStore = (): FeedbackStore => {
+    const records: FeedbackRecord[] = [];
+    return {
+        save: async (record) => {
+            records.push(record);
+        },
+        list: async (query = {}) => records.filter((record) => matchesQuery(record, query)),
+    };
+};
+
+let defaultStore: FeedbackStore | null = null;
+
+/**
+ * API Route で使う既定のストア
+ * FEEDBACK_STORE_PATH (既定は data/feedback.jsonl)、FEEDBACK_STORE_MAX_BYTES (既定は 50 MB)
+ */
+export const getFeedbackStore = (): FeedbackStore => {
+    if (!defaultStore) {
+        defaultStore = createJsonlFeedbackStore(
+            process.env.FEEDBACK_STORE_PATH || 'data/feedback.jsonl',
+            Number(process.env.FEEDBACK_STORE_MAX_BYTES) || 50 * 1024 * 1024,
+        );
+    }
+    return defaultStore;
+};
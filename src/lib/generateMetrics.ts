@@ -0,0 +1,37 @@
+// lib/generateMetrics.ts
+// /api/generate で集計し、/api/metrics で出力するメトリクス
+// 2 つの Route で同じ値を使うため globalThis に 1 つだけ持つ。
+// 共有されるのは同じプロセスの Node.js ランタイムの Route の間だけ (Edge Runtime では Route ごとにメモリが分かれる)。
+import { createMetricsRegistry } from '@/lib/metrics';
+
+const createGenerateMetrics = () => {
+    const registry = createMetricsRegistry();
+    return {
+        registry,
+        requestsTotal: registry.counter('senpaichat_generate_requests_total', 'Requests to /api/generate by HTTP status.'),
+        ttfbSeconds: registry.histogram(
+            'senpaichat_generate_ttfb_seconds',
+            'Time until the answer stream starts.',
+            [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+        ),
+        streamDurationSeconds: registry.histogram(
+            'senpaichat_generate_stream_duration_seconds',
+            'Time until the answer stream ends, by outcome.',
+            [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120],
+        ),
+        activeStreams: registry.gauge('senpaichat_generate_active_streams', 'Upstream answer streams in progress.'),
+        upstreamErrorsTotal: registry.counter('senpaichat_upstream_errors_total', 'Upstream failures by backend and error code.'),
+    };
+};
+
+export type GenerateMetrics = ReturnType<typeof createGenerateMetrics>;
+
+const globalForMetrics = globalThis as typeof globalThis & { senpaichatGenerateMetrics?: GenerateMetrics };
+
+/** プロセスで共有するメトリクス (開発中のホットリロードでもリセットしない) */
+export const getGenerateMetrics = (): GenerateMetrics => {
+    if (!globalForMetrics.senpaichatGenerateMetrics) {
+        globalForMetrics.senpaichatGenerateMetrics = createGenerateMetrics();
+    }
+    return globalForMetrics.senpaichatGenerateMetrics;
+};
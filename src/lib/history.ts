@@ -0,0 +1,61 @@
+// lib/history.ts
+// 会話履歴の切り出し (クライアント) と検証 (API Route)
+import type { HistoryMessage, Message } from '@/types/chat';
+
+/** クライアントから送る履歴の既定件数 */
+export const DEFAULT_HISTORY_WINDOW = 10;
+
+export interface HistoryLimits {
+    maxMessages: number; // これを超えた分は古い方から切り捨てる
+    maxMessageLength: number; // 1 メッセージあたりの最大文字数
+    maxTotalLength: number; // 履歴全体の最大文字数 (超えた分は古い方から切り捨てる)
+}
+
+/**
+ * 画面上のメッセージから、直近 windowSize 件の履歴を作る。
+ * 空の回答 (ストリーミング中) やエラー表示は文脈として意味がないので除外する。
+ */
+export const buildHistory = (messages: Message[], windowSize = DEFAULT_HISTORY_WINDOW): HistoryMessage[] =>
+    messages
+        .filter((msg) => !msg.isError && msg.content.trim() !== '')
+        .slice(-windowSize)
+        .map(({ role, content }) => ({ role, content }));
+
+export type HistoryValidationResult =
+    | { ok: true; history: HistoryMessage[] }
+    | { ok: false; error: string };
+
+/**
+ * リクエストボディの history を検証し、上限に合わせて切り詰める。
+ * history が省略されている場合は空の履歴として扱う (query だけを送る旧クライアント向け)。
+ */
+export const validateHistory = (value: unknown, limits: HistoryLimits): HistoryValidationResult => {
+    if (value === undefined || value === null) {
+        return { ok: true, history: [] };
+    }
+    if (!Array.isArray(value)) {
+        return { ok: false, error: 'History must be an array.' };
+    }
+
+    const history: HistoryMessage[] = [];
+    for (const item of value) {
+        if (
+            typeof item !== 'object' || item === null ||
+            (item.role !== 'user' && item.role !== 'assistant') ||
+            typeof item.content !== 'string'
+        ) {
+            return { ok: false, error: 'History items must be { role: "user" | "assistant", content: string }.' };
+        }
+        history.push({ role: item.role, content: item.content.substring(0, limits.maxMessageLength) });
+    }
+
+    // 新しいメッセージを優先して残す
+    const trimmed = history.slice(-limits.maxMessages);
+    let totalLength = 0;
+    let startIndex = trimmed.length;
+    while (startIndex > 0 && totalLength + trimmed[startIndex - 1].content.length <= limits.maxTotalLength) {
+        totalLength += trimmed[startIndex - 1].content.length;
+        startIndex--;
+    }
+    return { ok: true, history: trimmed.slice(startIndex) };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { rateLimitedResponse, readJsonBody } from '@/lib/http';
+
+const request = (body: BodyInit, headers: Record<string, string> = {}) =>
+    new Request('http://localhost/api/test', { method: 'POST', body, headers, duplex: 'half' } as RequestInit);
+
+describe('readJsonBody', () => {
+    it('上限以内の JSON を読む', async () => {
+        expect(await readJsonBody(request('{"a":1}'), 100)).toEqual({ ok: true, body: { a: 1 } });
+    });
+
+    it('Content-Length が上限を超えていれば読まずに 413 にする', async () => {
+        const result = await readJsonBody(request('{}', { 'content-length': '1000' }), 100);
+        expect(result.ok === false && result.response.status).toBe(413);
+    });
+
+    it('Content-Length がなくても読みながら数えて 413 にする', async () => {
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(encoder.encode('{"a":"'));
+                controller.enqueue(encoder.encode('x'.repeat(200)));
+                controller.enqueue(encoder.encode('"}'));
+                controller.close();
+            },
+        });
+        const result = await readJsonBody(request(stream), 100);
+        expect(result.ok === false && result.response.status).toBe(413);
+    });
+
+    it('JSON でなければ 400 にする', async () => {
+        const result = await readJsonBody(request('not json'), 100);
+        expect(result.ok === false && result.response.status).toBe(400);
+    });
+});
+
+describe('rateLimitedResponse', () => {
+    it('Retry-After を秒に切り上げて付ける', async () => {
+        const response = rateLimitedResponse(1500);
+        expect(response.status).toBe(429);
+        expect(response.headers.get('Retry-After')).toBe('2');
+        expect(await response.json()).toMatchObject({ code: 'RATE_LIMITED', retryAfter: 2 });
+    });
+});
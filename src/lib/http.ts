@@ -0,0 +1,63 @@
+// lib/http.ts
+// API Route で共通に使うレスポンスの組み立て
+
+/** JSON のレスポンスを返す */
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...headers },
+    });
+
+export type JsonBodyResult =
+    | { ok: true; body: unknown }
+    | { ok: false; response: Response };
+
+/**
+ * リクエストボディを JSON として読む
+ * maxBytes を超えるボディは最後まで読まずに 413 にする (Content-Length がない場合も読みながら数える)
+ */
+export const readJsonBody = async (request: Request, maxBytes: number): Promise<JsonBodyResult> => {
+    const tooLarge = () => ({
+        ok: false as const,
+        response: jsonResponse({ error: `Request body must be at most ${maxBytes} bytes.` }, 413),
+    });
+    if (Number(request.headers.get('content-length')) > maxBytes) return tooLarge();
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    if (request.body) {
+        const reader = request.body.getReader();
+        for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            size += value.byteLength;
+            if (size > maxBytes) {
+                await reader.cancel().catch(() => {});
+                return tooLarge();
+            }
+            chunks.push(value);
+        }
+    }
+
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    try {
+        return { ok: true, body: JSON.parse(new TextDecoder().decode(bytes)) };
+    } catch {
+        return { ok: false, response: jsonResponse({ error: 'Request body must be valid JSON.' }, 400) };
+    }
+};
+
+/** レート制限で拒否したときの 429 (generate 以外の API Route 用) */
+export const rateLimitedResponse = (retryAfterMs: number) => {
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    return jsonResponse(
+        { error: 'Too many requests. Please wait before trying again.', code: 'RATE_LIMITED', retryAfter },
+        429,
+        { 'Retry-After': String(retryAfter) },
+    );
+};
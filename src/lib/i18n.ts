@@ -0,0 +1,47 @@
+// lib/i18n.ts
+// UI の多言語化 (メッセージカタログの選択と Accept-Language からの言語の判定)
+// サーバーとクライアントの両方で使う。クライアントでは I18nProvider (useI18n) から参照する。
+import ja, { type Messages } from '@/locales/ja';
+import en from '@/locales/en';
+
+export const LOCALES = ['ja', 'en'] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+/** 手動で切り替えた言語を保存する Cookie */
+export const LOCALE_COOKIE = 'locale';
+
+const catalogs: Record<Locale, Messages> = { ja, en };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const getMessages = (locale: Locale): Messages => catalogs[locale];
+
+/** メッセージの {name} を params の値で置き換える */
+export const formatMessage = (template: string, params: Record<string, string | number> = {}) =>
+    template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+
+/**
+ * Accept-Language ヘッダーから対応している言語を選ぶ (q 値の高い順、en-US は en として扱う)
+ * 一致しなければ DEFAULT_LOCALE
+ */
+export const negotiateLocale = (acceptLanguage: string | null | undefined): Locale => {
+    if (!acceptLanguage) return DEFAULT_LOCALE;
+    const ranges = acceptLanguage
+        .split(',')
+        .map((part) => {
+            const [tag, ...params] = part.trim().split(';');
+            const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+            return { language: tag.trim().toLowerCase().split('-')[0], q: q ? Number(q.substring(2)) : 1 };
+        })
+        .filter(({ language, q }) => language && !Number.isNaN(q) && q > 0)
+        .sort((a, b) => b.q - a.q);
+    return ranges.map(({ language }) => language).find(isLocale) ?? DEFAULT_LOCALE;
+};
+
+/** Cookie の値を優先し、なければ Accept-Language から言語を決める */
+export const resolveLocale = (cookieValue: string | undefined, acceptLanguage: string | null | undefined): Locale =>
+    isLocale(cookieValue) ? cookieValue : negotiateLocale(acceptLanguage);
+
+/** 日付の表示に使う BCP 47 の言語タグ */
+export const toDateLocale = (locale: Locale) => (locale === 'ja' ? 'ja-JP' : 'en-US');
@@ -0,0 +1,106 @@
+// lib/inputGuard.ts
+// RAG API (外部のサービス) に転送する前の質問の検査
+// 順に 最大文字数 → 個人情報 → 答えない話題 → プロンプトインジェクション を確かめる。
+// 個人情報は src/config/redaction-rules.json のルールごとに、伏せて転送する (redact) か
+// 送信を止める (block) かを src/config/input-guard.json で指定する。会話履歴はどちらのルールでも伏せて転送する。
+import guardConfig from '@/config/input-guard.json';
+import redactionConfig from '@/config/redaction-rules.json';
+import { formatMessage, getMessages, type Locale } from '@/lib/i18n';
+import type { RedactionConfig } from '@/lib/redact';
+import type { InputGuardCode } from '@/types/inputGuard';
+
+export type PiiAction = 'redact' | 'block';
+
+export interface InputGuardConfig {
+    maxLength: number;
+    pii: Record<string, PiiAction>; // 個人情報のルール ID ごとの扱い (指定のないルールは検査しない)
+    blockedTopics: { id: string; patterns: string[] }[];
+    promptInjection: { id: string; pattern: string }[];
+}
+
+export type InputGuardResult =
+    | { ok: true; query: string; redactedRules: string[] } // query は個人情報を伏せた質問
+    | { ok: false; code: InputGuardCode; ruleId?: string };
+
+// 大文字・小文字は区別しない
+const compile = (pattern: string, global = false) => new RegExp(pattern, global ? 'gi' : 'i');
+
+export const createInputGuard = (
+    config: InputGuardConfig = guardConfig as InputGuardConfig,
+    redaction: RedactionConfig = redactionConfig as RedactionConfig,
+) => {
+    const piiRules = redaction.rules
+        .filter((rule) => config.pii[rule.id])
+        .map((rule) => {
+            const flags = (rule.flags ?? '').replace('g', '');
+            return {
+                id: rule.id,
+                action: config.pii[rule.id],
+                regExp: new RegExp(rule.pattern, flags), // 一致の確認用
+                replaceRegExp: new RegExp(rule.pattern, `${flags}g`),
+                replacement: rule.replacement,
+            };
+        });
+    const topics = config.blockedTopics.map((topic) => ({ id: topic.id, regExps: topic.patterns.map((pattern) => compile(pattern)) }));
+    const injections = config.promptInjection.map((rule) => ({ id: rule.id, regExp: compile(rule.pattern) }));
+
+    // redact のルールで伏せる (includeBlocked なら block のルールに一致した部分も伏せる)
+    const redactPii = (text: string, includeBlocked = false) => {
+        const applied: string[] = [];
+        let result = text;
+        for (const rule of piiRules) {
+            if (rule.action !== 'redact' && !includeBlocked) continue;
+            const replaced = result.replace(rule.replaceRegExp, rule.replacement);
+            if (replaced !== result) applied.push(rule.id);
+            result = replaced;
+        }
+        return { text: result, applied };
+    };
+
+    const check = (query: string): InputGuardResult => {
+        if (query.length > config.maxLength) return { ok: false, code: 'INPUT_TOO_LONG' };
+
+        // 伏せるルールを先に適用し、伏せた部分が別のルールに一致しないようにする
+        const { text, applied } = redactPii(query);
+        const blockedPii = piiRules.find((rule) => rule.action === 'block' && rule.regExp.test(text));
+        if (blockedPii) return { ok: false, code: 'INPUT_CONTAINS_PII', ruleId: blockedPii.id };
+
+        const topic = topics.find(({ regExps }) => regExps.some((regExp) => regExp.test(text)));
+        if (topic) return { ok: false, code: 'INPUT_BLOCKED_TOPIC', ruleId: topic.id };
+
+        const injection = injections.find(({ regExp }) => regExp.test(text));
+        if (injection) return { ok: false, code: 'INPUT_PROMPT_INJECTION', ruleId: injection.id };
+
+        return { ok: true, query: text, redactedRules: applied };
+    };
+
+    return {
+        check,
+        /**
+         * 会話履歴を伏せる。履歴はクライアントが書き換えたり読み込んだりできるため、
+         * block のルールに一致した部分も (送信は止めずに) 伏せる
+         */
+        redactHistory: (text: string) => redactPii(text, true).text,
+        maxLength: config.maxLength,
+    };
+};
+
+export type InputGuard = ReturnType<typeof createInputGuard>;
+
+/** 送信を止めた理由を利用者に伝えるメッセージ */
+export const getInputGuardMessage = (code: InputGuardCode, locale: Locale, maxLength: number) => {
+    const t = getMessages(locale).inputGuard;
+    switch (code) {
+        case 'INPUT_TOO_LONG':
+            return formatMessage(t.tooLong, { max: maxLength });
+        case 'INPUT_CONTAINS_PII':
+            return t.containsPii;
+        case 'INPUT_BLOCKED_TOPIC':
+            return t.blockedTopic;
+        case 'INPUT_PROMPT_INJECTION':
+            return t.promptInjection;
+    }
+};
+
+/** 既定の設定 (src/config/input-guard.json) の検査 */
+export const inputGuard = createInputGuard();
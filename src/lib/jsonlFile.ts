@@ -0,0 +1,54 @@
+// lib/jsonlFile.ts
+// ローカルの JSON Lines ファイルへの追記と読み込み (Node.js ランタイムの API Route 用)
+import { appendFile, mkdir, readFile, stat } from 'fs/promises';
+import { dirname } from 'path';
+import { logger } from '@/lib/logger';
+
+/** ファイルが上限の大きさに達したため追記しなかった */
+export class JsonlFileFullError extends Error {
+    constructor(readonly filePath: string, readonly maxBytes: number) {
+        super(`${filePath} has reached its size limit of ${maxBytes} bytes.`);
+        this.name = 'JsonlFileFullError';
+    }
+}
+
+const fileSize = async (filePath: string) => {
+    try {
+        return (await stat(filePath)).size;
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+        throw err;
+    }
+};
+
+/** maxBytes を指定した場合、追記するとその大きさを超えるなら JsonlFileFullError を投げる */
+export const appendJsonl = async (filePath: string, record: unknown, maxBytes?: number) => {
+    const line = `${JSON.stringify(record)}\n`;
+    if (maxBytes !== undefined && (await fileSize(filePath)) + Buffer.byteLength(line) > maxBytes) {
+        throw new JsonlFileFullError(filePath, maxBytes);
+    }
+    await mkdir(dirname(filePath), { recursive: true });
+    await appendFile(filePath, line, 'utf8');
+};
+
+/** ファイルがまだない場合は空の配列を返す。壊れた行は読み飛ばす */
+export const readJsonl = async <T>(filePath: string): Promise<T[]> => {
+    let text: string;
+    try {
+        text = await readFile(filePath, 'utf8');
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw err;
+    }
+
+    const records: T[] = [];
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            records.push(JSON.parse(line) as T);
+        } catch {
+            logger.warn('jsonl.malformed_line', { filePath });
+        }
+    }
+    return records;
+};
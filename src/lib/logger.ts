@@ -0,0 +1,89 @@
+// lib/logger.ts
+// サーバー側の構造化ログ (1 行 1 JSON)
+// レベルは LOG_LEVEL で指定し、未指定なら環境ごとの既定値 (本番: info / テスト: warn / 開発: debug) を使う。
+// 質問などの利用者の入力は redact (lib/redact.ts) を通してから渡すこと。
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug: (message: string, fields?: LogFields) => void;
+    info: (message: string, fields?: LogFields) => void;
+    warn: (message: string, fields?: LogFields) => void;
+    error: (message: string, fields?: LogFields) => void;
+    /** requestId などを常に付けるロガーを作る */
+    child: (bindings: LogFields) => Logger;
+}
+
+const levelPriority: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+    typeof value === 'string' && value in levelPriority;
+
+/** LOG_LEVEL、なければ NODE_ENV ごとの既定のレベル */
+export const getDefaultLogLevel = (): LogLevel => {
+    if (isLogLevel(process.env.LOG_LEVEL)) return process.env.LOG_LEVEL;
+    switch (process.env.NODE_ENV) {
+        case 'production':
+            return 'info';
+        case 'test':
+            return 'warn';
+        default:
+            return 'debug';
+    }
+};
+
+// Error はそのままでは JSON にならないため必要な項目だけを取り出す
+const serialize = (fields: LogFields) => {
+    const result: LogFields = {};
+    for (const [key, value] of Object.entries(fields)) {
+        result[key] = value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+    }
+    return result;
+};
+
+export type LogSink = (level: LogLevel, line: string) => void;
+
+const consoleSink: LogSink = (level, line) => {
+    if (level === 'error') console.error(line);
+    else if (level === 'warn') console.warn(line);
+    else console.log(line);
+};
+
+export const createLogger = (
+    level: LogLevel = getDefaultLogLevel(),
+    bindings: LogFields = {},
+    sink: LogSink = consoleSink,
+): Logger => {
+    const write = (messageLevel: LogLevel) => (message: string, fields: LogFields = {}) => {
+        if (levelPriority[messageLevel] < levelPriority[level]) return;
+        sink(messageLevel, JSON.stringify({
+            time: new Date().toISOString(),
+            level: messageLevel,
+            msg: message,
+            ...bindings,
+            ...serialize(fields),
+        }));
+    };
+
+    return {
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error'),
+        child: (childBindings) => createLogger(level, { ...bindings, ...childBindings }, sink),
+    };
+};
+
+/** 既定のロガー */
+export const logger = createLogger();
+
+// クライアントから渡されたリクエストID として受け入れる形式
+const REQUEST_ID_PATTERN = /^[\w-]{8,64}$/;
+
+/** X-Request-Id を引き継ぎ、なければ新しく作る */
+export const getRequestId = (headers: Headers) => {
+    const requestId = headers.get('x-request-id');
+    return requestId && REQUEST_ID_PATTERN.test(requestId) ? requestId : crypto.randomUUID();
+};
@@ -0,0 +1,116 @@
+// lib/metrics.ts
+// Prometheus のテキスト形式で出力するメトリクス (カウンター・ゲージ・ヒストグラム)
+// 値はプロセスのメモリに持つ (/api/generate の分は lib/generateMetrics.ts)。
+
+export type MetricLabels = Record<string, string>;
+
+interface Metric {
+    render: () => string[];
+}
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+// ラベルの組み合わせを系列のキーにする (順序に依存しないよう並べ替える)
+const serializeLabels = (labels: MetricLabels) => {
+    const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+    if (entries.length === 0) return '';
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+};
+
+// 既存のラベルに le などを足す
+const appendLabel = (serialized: string, label: string) =>
+    serialized ? `${serialized.slice(0, -1)},${label}}` : `{${label}}`;
+
+const header = (name: string, help: string, type: string) => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+export interface Counter {
+    inc: (labels?: MetricLabels, value?: number) => void;
+}
+
+export interface Gauge {
+    set: (value: number, labels?: MetricLabels) => void;
+}
+
+export interface Histogram {
+    observe: (value: number, labels?: MetricLabels) => void;
+}
+
+export const createMetricsRegistry = () => {
+    const metrics: Metric[] = [];
+
+    const counter = (name: string, help: string): Counter => {
+        const series = new Map<string, number>();
+        metrics.push({
+            render: () => [...header(name, help, 'counter'), ...Array.from(series, ([labels, value]) => `${name}${labels} ${value}`)],
+        });
+        return {
+            inc: (labels = {}, value = 1) => {
+                const key = serializeLabels(labels);
+                series.set(key, (series.get(key) ?? 0) + value);
+            },
+        };
+    };
+
+    /** collect を渡した場合は出力のたびにその値を使う (同時接続数など、別の場所が持っている値) */
+    const gauge = (name: string, help: string, collect?: () => number): Gauge => {
+        const series = new Map<string, number>();
+        metrics.push({
+            render: () => {
+                if (collect) series.set('', collect());
+                return [...header(name, help, 'gauge'), ...Array.from(series, ([labels, value]) => `${name}${labels} ${value}`)];
+            },
+        });
+        return {
+            set: (value, labels = {}) => {
+                series.set(serializeLabels(labels), value);
+            },
+        };
+    };
+
+    /** buckets は上限 (le) の昇順 */
+    const histogram = (name: string, help: string, buckets: number[]): Histogram => {
+        const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+        metrics.push({
+            render: () => {
+                const lines = header(name, help, 'histogram');
+                for (const [labels, { counts, sum, count }] of series) {
+                    buckets.forEach((bucket, index) => {
+                        lines.push(`${name}_bucket${appendLabel(labels, `le="${bucket}"`)} ${counts[index]}`);
+                    });
+                    lines.push(`${name}_bucket${appendLabel(labels, 'le="+Inf"')} ${count}`);
+                    lines.push(`${name}_sum${labels} ${sum}`);
+                    lines.push(`${name}_count${labels} ${count}`);
+                }
+                return lines;
+            },
+        });
+        return {
+            observe: (value, labels = {}) => {
+                const key = serializeLabels(labels);
+                let entry = series.get(key);
+                if (!entry) {
+                    entry = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+                    series.set(key, entry);
+                }
+                // 累積のバケット (value 以上の上限すべてに数える)
+                buckets.forEach((bucket, index) => {
+                    if (value <= bucket) entry.counts[index]++;
+                });
+                entry.sum += value;
+                entry.count++;
+            },
+        };
+    };
+
+    return {
+        counter,
+        gauge,
+        histogram,
+        /** Prometheus のテキスト形式 (text/plain; version=0.0.4) */
+        render: () => `${metrics.flatMap((metric) => metric.render()).join('\n')}\n`,
+    };
+};
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { createMockRagFetch, selectMockFixture, type MockRagConfig } from '@/lib/mockRag';
+import { createSSEParser, type SSEEvent } from '@/lib/sse';
+
+const config: MockRagConfig = {
+    default: 'answer',
+    fixtures: [
+        { id: 'answer', chunks: ['こんにちは', '先輩です'], sources: [{ title: '学生便覧' }], suggestions: ['次の質問'] },
+        { id: 'dorm', match: '寮', chunks: ['寮の回答'], endMarker: '[DONE]' },
+        { id: 'unavailable', match: '^\\[mock:unavailable\\]', status: 503, chunks: [] },
+        { id: 'error-event', match: '^\\[mock:error\\]', chunks: ['途中まで'], error: { mode: 'event', message: 'failed' } },
+        { id: 'disconnect', match: '^\\[mock:disconnect\\]', chunks: ['途中まで'], error: { mode: 'disconnect' } },
+    ],
+};
+
+const ask = (query: string, scenarioId?: string) =>
+    createMockRagFetch(config, scenarioId)('http://mock.test', { method: 'POST', body: JSON.stringify({ query }) });
+
+const readEvents = async (response: Response) => {
+    const parser = createSSEParser();
+    const events: SSEEvent[] = parser.feed(await response.text());
+    return [...events, ...parser.flush()];
+};
+
+describe('selectMockFixture', () => {
+    it('質問に一致するシナリオ、なければ既定のシナリオを選ぶ', () => {
+        expect(selectMockFixture('寮の門限は?', config).id).toBe('dorm');
+        expect(selectMockFixture('履修登録', config).id).toBe('answer');
+    });
+
+    it('scenarioId を指定した場合はそれを優先する', () => {
+        expect(selectMockFixture('寮の門限は?', config, 'answer').id).toBe('answer');
+    });
+
+    it('既定のシナリオが未定義ならエラーにする', () => {
+        expect(() => selectMockFixture('x', { default: 'missing', fixtures: [] })).toThrow('"missing"');
+    });
+});
+
+describe('createMockRagFetch', () => {
+    it('バックエンドと同じ形式で回答・出典・候補・終了マーカーを送る', async () => {
+        const response = await ask('履修登録');
+        expect(response.headers.get('content-type')).toContain('text/event-stream');
+        expect(await readEvents(response)).toEqual([
+            { type: 'message', data: 'こんにちは', id: undefined },
+            { type: 'message', data: '先輩です', id: undefined },
+            { type: 'sources', sources: [{ title: '学生便覧', url: undefined, snippet: undefined }], id: undefined },
+            { type: 'suggestions', suggestions: ['次の質問'], id: undefined },
+            { type: 'done' },
+        ]);
+    });
+
+    it('status を指定したシナリオはそのステータスで応答する', async () => {
+        const response = await ask('[mock:unavailable] test');
+        expect(response.status).toBe(503);
+    });
+
+    it('途中で event: error を送る', async () => {
+        const events = await readEvents(await ask('[mock:error] test'));
+        expect(events).toEqual([
+            { type: 'message', data: '途中まで', id: undefined },
+            { type: 'error', data: 'failed', id: undefined },
+        ]);
+    });
+
+    it('途中で接続を切る', async () => {
+        const response = await ask('[mock:disconnect] test');
+        await expect(response.text()).rejects.toThrow('Mock disconnect');
+    });
+});
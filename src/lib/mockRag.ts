@@ -0,0 +1,122 @@
+// lib/mockRag.ts
+// 開発・テスト用の RAG API (FastAPI) のモック
+// 実際のバックエンドと同じ形式 (data: ...</chank>, event: sources, <end> / [DONE]) で
+// src/mocks/rag-fixtures.json のシナリオを再生する。fetch と同じ形の関数として使えるため、
+// /api/generate のタイムアウトやリトライの処理もそのまま通る。
+import fixtureConfig from '@/mocks/rag-fixtures.json';
+import { formatSSEEvent } from '@/lib/sse';
+import type { Source } from '@/types/chat';
+
+export interface MockRagFixture {
+    id: string;
+    description?: string;
+    match?: string; // 質問に一致する正規表現 (省略時は既定のシナリオとしてのみ使う)
+    status?: number; // 200 以外を返す場合の HTTP ステータス
+    firstByteDelayMs?: number;
+    chunkDelayMs?: number;
+    chunks: string[];
+    sources?: Source[];
+    suggestions?: string[]; // 省略時は /api/generate が出典から候補を作る
+    // chunks を送り終えた後に起こす障害
+    // event: event: error を送る / disconnect: 接続を切る / hang: 何も送らずに止まる
+    error?: { mode: 'event' | 'disconnect' | 'hang'; message?: string };
+    endMarker?: '<end>' | '[DONE]';
+}
+
+export interface MockRagConfig {
+    default: string;
+    fixtures: MockRagFixture[];
+}
+
+const encoder = new TextEncoder();
+
+// バックエンドと同じく data の末尾に </chank> を付ける
+const formatChunk = (text: string) => formatSSEEvent({ data: text }).replace(/\n\n$/, '</chank>\n\n');
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+
+/** 質問に一致するシナリオを選ぶ。scenarioId を指定した場合はそれを優先する */
+export const selectMockFixture = (query: string, config: MockRagConfig, scenarioId?: string): MockRagFixture => {
+    const byId = (id: string) => config.fixtures.find((fixture) => fixture.id === id);
+    const fixture = (scenarioId && byId(scenarioId))
+        || config.fixtures.find((candidate) => candidate.match && new RegExp(candidate.match).test(query))
+        || byId(config.default);
+    if (!fixture) {
+        throw new Error(`Mock RAG fixture "${scenarioId ?? config.default}" is not defined.`);
+    }
+    return fixture;
+};
+
+/** シナリオを SSE のストリームとして再生する */
+export const createMockRagStream = (fixture: MockRagFixture, signal?: AbortSignal | null) =>
+    new ReadableStream<Uint8Array>({
+        async start(controller) {
+            try {
+                for (const [index, chunk] of fixture.chunks.entries()) {
+                    if (index > 0 && fixture.chunkDelayMs) await sleep(fixture.chunkDelayMs, signal);
+                    controller.enqueue(encoder.encode(formatChunk(chunk)));
+                }
+
+                if (fixture.chunkDelayMs) await sleep(fixture.chunkDelayMs, signal);
+
+                if (fixture.error?.mode === 'event') {
+                    controller.enqueue(encoder.encode(formatSSEEvent({ event: 'error', data: fixture.error.message ?? 'Mock error' })));
+                    controller.close();
+                    return;
+                }
+                if (fixture.error?.mode === 'disconnect') {
+                    controller.error(new Error(fixture.error.message ?? 'Mock disconnect'));
+                    return;
+                }
+                if (fixture.error?.mode === 'hang') {
+                    return; // close しないまま止める
+                }
+
+                if (fixture.sources) {
+                    controller.enqueue(encoder.encode(formatSSEEvent({ event: 'sources', data: JSON.stringify(fixture.sources) })));
+                }
+                if (fixture.suggestions) {
+                    controller.enqueue(encoder.encode(formatSSEEvent({ event: 'suggestions', data: JSON.stringify(fixture.suggestions) })));
+                }
+                controller.enqueue(encoder.encode(formatChunk(fixture.endMarker ?? '<end>')));
+                controller.close();
+            } catch (err) {
+                controller.error(err);
+            }
+        },
+    });
+
+/**
+ * fetch の代わりに使うモック
+ * リクエストボディの query からシナリオを選び、レスポンスを返す。
+ */
+export const createMockRagFetch = (
+    config: MockRagConfig = fixtureConfig as MockRagConfig,
+    scenarioId: string | undefined = process.env.RAG_API_MOCK_SCENARIO,
+): typeof fetch =>
+    async (_input, init) => {
+        const { query = '' } = JSON.parse(typeof init?.body === 'string' ? init.body : '{}');
+        const fixture = selectMockFixture(query, config, scenarioId);
+
+        if (fixture.firstByteDelayMs) await sleep(fixture.firstByteDelayMs, init?.signal);
+
+        if (fixture.status && fixture.status !== 200) {
+            return new Response(JSON.stringify({ detail: `Mock RAG fixture "${fixture.id}" responded with ${fixture.status}.` }), {
+                status: fixture.status,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        return new Response(createMockRagStream(fixture, init?.signal), {
+            status: 200,
+            headers: { 'Content-Type': 'text/event-stream; charset=utf-8' },
+        });
+    };
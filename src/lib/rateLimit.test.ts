@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createConcurrencyLimiter,
+    createMemoryRateLimitStore,
+    createRateLimiter,
+    getClientIp,
+    getTrustedProxyHops,
+    takeToken,
+} from '@/lib/rateLimit';
+
+const ipRule = { burst: 2, refillPerMinute: 60 }; // 1 秒に 1 回復
+const sessionRule = { burst: 1, refillPerMinute: 60 };
+
+const setup = () => {
+    let time = 0;
+    const limiter = createRateLimiter({ ip: ipRule, session: sessionRule }, createMemoryRateLimitStore(), () => time);
+    return { limiter, advance: (ms: number) => (time += ms) };
+};
+
+describe('takeToken', () => {
+    it('burst まで消費でき、経過時間に応じて回復する', () => {
+        let { state, result } = takeToken(undefined, ipRule, 0);
+        expect(result).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+        ({ state, result } = takeToken(state, ipRule, 0));
+        expect(result.allowed).toBe(true);
+        ({ state, result } = takeToken(state, ipRule, 0));
+        expect(result).toEqual({ allowed: false, remaining: 0, retryAfterMs: 1000 });
+        ({ result } = takeToken(state, ipRule, 1000));
+        expect(result.allowed).toBe(true);
+    });
+});
+
+describe('createRateLimiter', () => {
+    it('IP ごとにバケットを分ける', async () => {
+        const { limiter } = setup();
+        expect((await limiter.check({ ip: '192.0.2.1' })).allowed).toBe(true);
+        expect((await limiter.check({ ip: '192.0.2.1' })).allowed).toBe(true);
+        expect(await limiter.check({ ip: '192.0.2.1' })).toEqual({ allowed: false, remaining: 0, retryAfterMs: 1000 });
+        expect((await limiter.check({ ip: '192.0.2.2' })).allowed).toBe(true);
+    });
+
+    it('セッションのバケットで拒否したときは IP のトークンを消費しない', async () => {
+        const { limiter } = setup();
+        expect((await limiter.check({ ip: '192.0.2.1', sessionId: 'a' })).allowed).toBe(true);
+        expect((await limiter.check({ ip: '192.0.2.1', sessionId: 'a' })).allowed).toBe(false);
+        expect((await limiter.check({ ip: '192.0.2.1', sessionId: 'a' })).allowed).toBe(false);
+        // IP のバケットには 1 つ残っている
+        expect((await limiter.check({ ip: '192.0.2.1', sessionId: 'b' })).allowed).toBe(true);
+        expect((await limiter.check({ ip: '192.0.2.1', sessionId: 'c' })).allowed).toBe(false);
+    });
+
+    it('セッション ID を変えても IP の制限は超えられない', async () => {
+        const { limiter, advance } = setup();
+        const results = [];
+        for (const sessionId of ['a', 'b', 'c', 'd']) {
+            results.push((await limiter.check({ ip: '192.0.2.1', sessionId })).allowed);
+        }
+        expect(results).toEqual([true, true, false, false]);
+        advance(1000);
+        expect((await limiter.check({ ip: '192.0.2.1', sessionId: 'e' })).allowed).toBe(true);
+    });
+
+    it('同じセッション ID でも IP が違えば別のバケットにする', async () => {
+        const { limiter } = setup();
+        expect((await limiter.check({ ip: '192.0.2.1', sessionId: 'a' })).allowed).toBe(true);
+        expect((await limiter.check({ ip: '192.0.2.2', sessionId: 'a' })).allowed).toBe(true);
+    });
+
+    it('session の規則を省略した場合は IP だけで制限する', async () => {
+        const limiter = createRateLimiter({ ip: { burst: 1, refillPerMinute: 1 } });
+        expect((await limiter.check({ ip: null, sessionId: 'a' })).allowed).toBe(true);
+        expect((await limiter.check({ ip: null, sessionId: 'b' })).allowed).toBe(false);
+    });
+});
+
+describe('getClientIp', () => {
+    const headers = (forwardedFor?: string) => new Headers(forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor });
+
+    it('信頼するプロキシが末尾に追加した値を使う (先頭はクライアントが偽装できる)', () => {
+        expect(getClientIp(headers('203.0.113.9, 192.0.2.1'), 1)).toBe('192.0.2.1');
+        expect(getClientIp(headers('203.0.113.9, 192.0.2.1, 10.0.0.2'), 2)).toBe('192.0.2.1');
+        expect(getClientIp(headers('192.0.2.1'), 1)).toBe('192.0.2.1');
+    });
+
+    it('プロキシを経由していなければ null を返す', () => {
+        expect(getClientIp(headers(), 1)).toBeNull();
+        expect(getClientIp(headers('192.0.2.1'), 2)).toBeNull();
+        expect(getClientIp(headers('192.0.2.1'), 0)).toBeNull();
+    });
+
+    it('TRUSTED_PROXY_HOPS の既定は 1', () => {
+        expect(getTrustedProxyHops(undefined)).toBe(1);
+        expect(getTrustedProxyHops('0')).toBe(0);
+        expect(getTrustedProxyHops('2')).toBe(2);
+        expect(getTrustedProxyHops('x')).toBe(1);
+    });
+});
+
+describe('createConcurrencyLimiter', () => {
+    it('上限まで枠を確保し、解放は 1 回だけ数える', () => {
+        const limiter = createConcurrencyLimiter(1);
+        const release = limiter.tryAcquire();
+        expect(release).not.toBeNull();
+        expect(limiter.tryAcquire()).toBeNull();
+        release?.();
+        release?.();
+        expect(limiter.active).toBe(0);
+        expect(limiter.tryAcquire()).not.toBeNull();
+    });
+});
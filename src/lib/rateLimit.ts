@@ -0,0 +1,192 @@
+// lib/rateLimit.ts
+// API のレート制限 (トークンバケット) と、上流ストリームの同時接続数の上限
+
+export interface TokenBucketConfig {
+    burst: number; // バケットの容量 (連続して送れる回数)
+    refillPerMinute: number; // 1 分あたりに回復するトークン数 (持続的に送れる回数)
+}
+
+export interface BucketState {
+    tokens: number;
+    updatedAt: number; // ms
+}
+
+export interface TakeResult {
+    allowed: boolean;
+    remaining: number;
+    retryAfterMs: number; // allowed = false の場合、次のトークンが回復するまでの時間
+}
+
+export interface BucketRequest {
+    key: string;
+    config: TokenBucketConfig;
+}
+
+/**
+ * バケットの保存先
+ * 複数インスタンスで制限を共有する場合は Redis などで実装する。
+ * take はすべてのバケットにトークンがある場合だけ 1 つずつ消費し、1 つでも足りなければどれも消費しない。
+ * 読み取りと更新は不可分に行うこと (Redis なら Lua スクリプトなど)。
+ */
+export interface RateLimitStore {
+    take: (buckets: BucketRequest[], now: number) => Promise<TakeResult>;
+}
+
+/** 経過時間に応じてトークンを回復させたうえで 1 つ消費する (ストアの実装で共通に使う) */
+export const takeToken = (
+    state: BucketState | undefined,
+    config: TokenBucketConfig,
+    now: number,
+): { state: BucketState; result: TakeResult } => {
+    const refillPerMs = config.refillPerMinute / 60000;
+    const previous = state ?? { tokens: config.burst, updatedAt: now };
+    const elapsed = Math.max(0, now - previous.updatedAt);
+    const tokens = Math.min(config.burst, previous.tokens + elapsed * refillPerMs);
+
+    if (tokens >= 1) {
+        return {
+            state: { tokens: tokens - 1, updatedAt: now },
+            result: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 },
+        };
+    }
+    return {
+        state: { tokens, updatedAt: now },
+        result: {
+            allowed: false,
+            remaining: 0,
+            retryAfterMs: refillPerMs > 0 ? Math.ceil((1 - tokens) / refillPerMs) : Infinity,
+        },
+    };
+};
+
+/** インスタンス内のメモリに保存するストア (単一インスタンスの運用とテスト用) */
+export const createMemoryRateLimitStore = (maxEntries = 10000): RateLimitStore => {
+    const buckets = new Map<string, BucketState>();
+
+    // 満タンまで回復したバケットは保持する必要がないので捨てる
+    const sweep = (config: TokenBucketConfig, now: number) => {
+        const fullAfterMs = config.refillPerMinute > 0 ? (config.burst / config.refillPerMinute) * 60000 : Infinity;
+        for (const [key, state] of buckets) {
+            if (now - state.updatedAt >= fullAfterMs) buckets.delete(key);
+        }
+    };
+
+    return {
+        take: async (requests, now) => {
+            if (buckets.size >= maxEntries) {
+                for (const { config } of requests) sweep(config, now);
+            }
+            const taken = requests.map(({ key, config }) => ({ key, ...takeToken(buckets.get(key), config, now) }));
+            const results = taken.map(({ result }) => result);
+            const denied = results.filter((result) => !result.allowed);
+            if (denied.length > 0) {
+                return { allowed: false, remaining: 0, retryAfterMs: Math.max(...denied.map((result) => result.retryAfterMs)) };
+            }
+            for (const { key, state } of taken) buckets.set(key, state);
+            return { allowed: true, remaining: Math.min(...results.map((result) => result.remaining)), retryAfterMs: 0 };
+        },
+    };
+};
+
+export interface RateLimitRules {
+    ip: TokenBucketConfig;
+    session?: TokenBucketConfig; // 省略した場合は IP ごとの制限だけ
+}
+
+export interface RateLimitIdentity {
+    ip: string | null; // getClientIp で取り出せなかった場合は null
+    sessionId?: string;
+}
+
+export interface RateLimiter {
+    /** IP とセッションの両方のバケットにトークンがある場合だけ、1 つずつ消費する */
+    check: (identity: RateLimitIdentity) => Promise<TakeResult>;
+}
+
+// IP が分からないリクエスト (信頼するプロキシを経由していない) はまとめて 1 つのバケットで制限する
+const UNKNOWN_IP = 'unknown';
+
+export const createRateLimiter = (
+    rules: RateLimitRules,
+    store: RateLimitStore = createMemoryRateLimitStore(),
+    now: () => number = Date.now,
+): RateLimiter => ({
+    check: async ({ ip, sessionId }) => {
+        const clientIp = ip ?? UNKNOWN_IP;
+        const buckets: BucketRequest[] = [{ key: `ip:${clientIp}`, config: rules.ip }];
+        // X-Session-Id はクライアントが自由に変えられるため、IP の制限の内側でのタブごとの制限として使う
+        // (IP ごとに区切るので、ID を変えても IP の制限は超えられず、他の IP のセッションにも影響しない)
+        if (rules.session && sessionId) {
+            buckets.push({ key: `session:${clientIp}:${sessionId}`, config: rules.session });
+        }
+        return store.take(buckets, now());
+    },
+});
+
+export interface ConcurrencyLimiter {
+    /** 空きがあれば枠を確保して解放用の関数を返す。空きがなければ null */
+    tryAcquire: () => (() => void) | null;
+    readonly active: number;
+}
+
+/** 上流ストリームの同時接続数の上限 (インスタンスごと) */
+export const createConcurrencyLimiter = (maxConcurrent: number): ConcurrencyLimiter => {
+    let active = 0;
+    return {
+        tryAcquire: () => {
+            if (active >= maxConcurrent) return null;
+            active++;
+            let released = false;
+            return () => {
+                if (released) return;
+                released = true;
+                active--;
+            };
+        },
+        get active() {
+            return active;
+        },
+    };
+};
+
+/** ストリームが最後まで読まれるか、キャンセル・エラーで終わったときに onDone を呼ぶ */
+export const onStreamDone = (stream: ReadableStream<Uint8Array>, onDone: () => void): ReadableStream<Uint8Array> => {
+    const reader = stream.getReader();
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { value, done } = await reader.read();
+                if (done) {
+                    onDone();
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (err) {
+                onDone();
+                controller.error(err);
+            }
+        },
+        cancel(reason) {
+            onDone();
+            return reader.cancel(reason);
+        },
+    });
+};
+
+/** 信頼するプロキシの段数 (TRUSTED_PROXY_HOPS、既定は 1。Vercel や nginx を 1 段挟む構成) */
+export const getTrustedProxyHops = (value = process.env.TRUSTED_PROXY_HOPS) => {
+    const hops = Number(value);
+    return value !== undefined && value !== '' && Number.isInteger(hops) && hops >= 0 ? hops : 1;
+};
+
+/**
+ * プロキシ経由のリクエストからクライアントの IP を取り出す
+ * X-Forwarded-For の先頭はクライアントが自由に書けるため、信頼するプロキシが末尾に追加した値
+ * (末尾から trustedProxyHops 番目) を使う。プロキシを経由していない場合などは null。
+ */
+export const getClientIp = (headers: Headers, trustedProxyHops = getTrustedProxyHops()): string | null => {
+    const entries = (headers.get('x-forwarded-for') ?? '').split(',').map((entry) => entry.trim());
+    if (trustedProxyHops === 0 || entries.length < trustedProxyHops) return null;
+    return entries[entries.length - trustedProxyHops] || null;
+};
@@ -0,0 +1,46 @@
+// lib/readiness.ts
+// /api/ready で使う RAG バックエンドの疎通確認
+import type { ResolvedBackend } from '@/lib/backends';
+
+export interface BackendCheck {
+    id: string;
+    ok: boolean;
+    mock?: boolean;
+    status?: number; // 上流が返した HTTP ステータス
+    latencyMs?: number;
+    error?: string;
+}
+
+/**
+ * バックエンドの URL に GET を送り、タイムアウトまでに応答があるかを確かめる
+ * 質問は送らないため、POST のみ受け付ける API が返す 405 なども「届いた」とみなす (5xx は失敗)。
+ * モックと URL 未設定のバックエンドには送らない。
+ */
+export const probeBackend = async (
+    backend: ResolvedBackend,
+    timeoutMs: number,
+    fetchImpl: typeof fetch = fetch,
+    now: () => number = Date.now,
+): Promise<BackendCheck> => {
+    const id = backend.entry.id;
+    if (backend.useMock) return { id, ok: true, mock: true };
+    if (!backend.url) return { id, ok: false, error: `${backend.entry.urlEnv} is not set.` };
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const startedAt = now();
+    try {
+        const response = await fetchImpl(backend.url, {
+            method: 'GET',
+            headers: backend.headers,
+            signal: controller.signal,
+        });
+        await response.body?.cancel();
+        return { id, ok: response.status < 500, status: response.status, latencyMs: now() - startedAt };
+    } catch (err) {
+        const error = controller.signal.aborted ? `No response within ${timeoutMs}ms.` : (err as Error).message;
+        return { id, ok: false, latencyMs: now() - startedAt, error };
+    } finally {
+        clearTimeout(timer);
+    }
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createRedactor, redact, redactForLog } from '@/lib/redact';
+
+describe('redact (既定のルール)', () => {
+    it.each([
+        ['連絡先は taro.yamada+test@example.ac.jp です', '連絡先は [EMAIL] です'],
+        ['090-1234-5678 に電話', '[PHONE] に電話'],
+        ['09012345678', '[PHONE]'],
+        ['事務室は 03-1234-5678 です', '事務室は [PHONE] です'],
+        ['045-123-4567', '[PHONE]'],
+        ['0467-12-3456', '[PHONE]'],
+        ['0120-123-456', '[PHONE]'],
+        ['0312345678', '[PHONE]'],
+        ['+81 90-1234-5678', '[PHONE]'],
+        ['AB24-1234 の成績', '[STUDENT_ID] の成績'],
+        ['s2412345 です', '[STUDENT_ID] です'],
+        ['学籍番号は2412345です', '学籍番号は[STUDENT_ID]です'],
+        ['学籍番号: 24-12345', '学籍番号: [STUDENT_ID]'],
+        ['Student ID 24123456', 'Student ID [STUDENT_ID]'],
+    ])('個人情報を伏せる: %s', (text, expected) => {
+        expect(redact(text)).toBe(expected);
+    });
+
+    it.each([
+        '20250401 の行事は?',
+        '2025-04-01 から履修登録',
+        '学費は 1000000 円ですか',
+        '授業 123456 について',
+        '会議室 1203 と 部屋番号 0312',
+        '定員は 1,000 人',
+        '科目番号 CS101',
+    ])('日付・金額・授業や部屋の番号は伏せない: %s', (text) => {
+        expect(redact(text)).toBe(text);
+    });
+});
+
+describe('createRedactor', () => {
+    it('ルールの flags に g を足して、一致した箇所をすべて置き換える', () => {
+        const redactCode = createRedactor({ rules: [{ id: 'code', pattern: 'secret-\\d+', flags: 'i', replacement: '[CODE]' }] });
+        expect(redactCode('SECRET-1 と secret-2')).toBe('[CODE] と [CODE]');
+    });
+});
+
+describe('redactForLog', () => {
+    it('伏せたうえで切り詰める', () => {
+        expect(redactForLog('090-1234-5678 に電話してください', 10)).toBe('[PHONE] に電…');
+    });
+});
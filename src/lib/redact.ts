@@ -0,0 +1,33 @@
+// lib/redact.ts
+// ログに残す前に、質問に含まれる個人情報 (メールアドレス、電話番号、学籍番号など) を伏せる
+// ルールは src/config/redaction-rules.json に正規表現で定義する。
+import redactionConfig from '@/config/redaction-rules.json';
+
+export interface RedactionRule {
+    id: string;
+    description?: string;
+    pattern: string;
+    flags?: string; // 既定は g (g は常に付ける)
+    replacement: string;
+}
+
+export interface RedactionConfig {
+    rules: RedactionRule[];
+}
+
+export const createRedactor = (config: RedactionConfig = redactionConfig as RedactionConfig) => {
+    const rules = config.rules.map((rule) => ({
+        regExp: new RegExp(rule.pattern, Array.from(new Set(`${rule.flags ?? ''}g`)).join('')),
+        replacement: rule.replacement,
+    }));
+    return (text: string) => rules.reduce((result, { regExp, replacement }) => result.replace(regExp, replacement), text);
+};
+
+/** 既定のルールで伏せる */
+export const redact = createRedactor();
+
+/** ログ用に伏せたうえで maxLength 文字に切り詰める */
+export const redactForLog = (text: string, maxLength = 100) => {
+    const redacted = redact(text);
+    return redacted.length > maxLength ? `${redacted.substring(0, maxLength)}…` : redacted;
+};
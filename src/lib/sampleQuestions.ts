@@ -0,0 +1,70 @@
+// lib/sampleQuestions.ts
+// 質問例の選び方
+// 質問例は src/config/sample-questions.json で管理し、対象者 (在校生・受験生・保護者など) ごとに
+// 絞り込んだうえで、カテゴリごとに毎回ランダムに入れ替えて返す。
+import questionConfig from '@/config/sample-questions.json';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+import type { SampleQuestionCategory, SampleQuestionsResponse } from '@/types/sampleQuestions';
+
+export interface SampleQuestionEntry {
+    id: string;
+    category: string;
+    text: string;
+    audiences?: string[]; // 省略時はすべての対象者に表示する
+    translations?: Partial<Record<Locale, string>>; // 既定の言語 (text) 以外での表示
+}
+
+export interface SampleQuestionConfig {
+    defaultAudience: string;
+    perCategory: number; // カテゴリごとに返す質問の数
+    categories: { id: string; label: string; translations?: Partial<Record<Locale, string>> }[];
+    questions: SampleQuestionEntry[];
+}
+
+export interface SampleQuestionOptions {
+    audience?: string;
+    category?: string; // 指定したカテゴリだけを返す
+    categoryIds?: string[]; // 選択中のアシスタントが扱うカテゴリ (省略時はすべて)
+    limit?: number; // カテゴリごとの件数 (省略時は perCategory)
+    locale?: Locale; // 翻訳がなければ既定の言語で返す
+}
+
+const localize = (text: string, translations: Partial<Record<Locale, string>> | undefined, locale: Locale) =>
+    (locale !== DEFAULT_LOCALE && translations?.[locale]) || text;
+
+// Fisher–Yates でシャッフルしたコピーを返す
+const shuffle = <T>(items: T[], random: () => number) => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+/** 対象者とカテゴリで絞り込み、カテゴリごとにランダムに選んだ質問例を返す (質問のないカテゴリは除く) */
+export const selectSampleQuestions = (
+    { audience, category, categoryIds, limit, locale = DEFAULT_LOCALE }: SampleQuestionOptions = {},
+    config: SampleQuestionConfig = questionConfig as SampleQuestionConfig,
+    random: () => number = Math.random,
+): SampleQuestionsResponse => {
+    const targetAudience = audience || config.defaultAudience;
+    const perCategory = limit ?? config.perCategory;
+
+    const categories = config.categories
+        .filter(({ id }) => (!category || id === category) && (!categoryIds || categoryIds.includes(id)))
+        .map(({ id, label, translations }): SampleQuestionCategory => {
+            const candidates = config.questions.filter((question) =>
+                question.category === id && (!question.audiences || question.audiences.includes(targetAudience)));
+            return {
+                id,
+                label: localize(label, translations, locale),
+                questions: shuffle(candidates, random)
+                    .slice(0, perCategory)
+                    .map((question) => ({ id: question.id, text: localize(question.text, question.translations, locale) })),
+            };
+        })
+        .filter(({ questions }) => questions.length > 0);
+
+    return { audience: targetAudience, categories };
+};
@@ -0,0 +1,122 @@
+// lib/serviceStatus.ts
+// サービスの状態 (通常・読み取り専用・メンテナンス・終了) の読み込み
+// SERVICE_STATUS_URL に置いた JSON を定期的に読み直すため、再デプロイせずに切り替えられる。
+// URL が未設定の場合や読み込めない場合は環境変数 (SERVICE_STATUS など) を使う。
+import { logger } from '@/lib/logger';
+import type { ServiceState, ServiceStatus, ServiceStatusConfig } from '@/types/serviceStatus';
+
+const SERVICE_STATES: ServiceState[] = ['open', 'read-only', 'maintenance', 'closed'];
+
+export type ServiceUnavailableCode = 'SERVICE_READ_ONLY' | 'SERVICE_MAINTENANCE' | 'SERVICE_CLOSED';
+
+const unavailableCodes: Record<Exclude<ServiceState, 'open'>, ServiceUnavailableCode> = {
+    'read-only': 'SERVICE_READ_ONLY',
+    maintenance: 'SERVICE_MAINTENANCE',
+    closed: 'SERVICE_CLOSED',
+};
+
+const isServiceState = (value: unknown): value is ServiceState => SERVICE_STATES.includes(value as ServiceState);
+
+const optionalDate = (value: unknown) =>
+    typeof value === 'string' && !Number.isNaN(new Date(value).getTime()) ? value : undefined;
+
+/** JSON や環境変数から読んだ値を ServiceStatusConfig に整える。不正な場合は null */
+export const parseServiceStatusConfig = (value: unknown): ServiceStatusConfig | null => {
+    if (typeof value !== 'object' || value === null) return null;
+    const { state, message, maintenance } = value as Record<string, unknown>;
+    if (!isServiceState(state)) return null;
+
+    const config: ServiceStatusConfig = { state };
+    if (typeof message === 'string' && message.trim()) config.message = message;
+    if (typeof maintenance === 'object' && maintenance !== null) {
+        const { start, end } = maintenance as Record<string, unknown>;
+        config.maintenance = { start: optionalDate(start), end: optionalDate(end) };
+    }
+    return config;
+};
+
+/** メンテナンスの予定を現在時刻で解決する (開始前は open のまま告知、終了後は open) */
+export const resolveServiceStatus = (config: ServiceStatusConfig, now = Date.now()): ServiceStatus => {
+    if (config.state !== 'maintenance') {
+        return { state: config.state, message: config.message };
+    }
+    const { start, end } = config.maintenance ?? {};
+    if (end && new Date(end).getTime() <= now) {
+        return { state: 'open' };
+    }
+    if (start && new Date(start).getTime() > now) {
+        return { state: 'open', message: config.message, maintenance: config.maintenance };
+    }
+    return { state: 'maintenance', message: config.message, maintenance: config.maintenance };
+};
+
+/** 質問を受け付けない状態なら、/api/generate が返すエラーコード */
+export const getServiceUnavailableCode = (status: ServiceStatus): ServiceUnavailableCode | null =>
+    status.state === 'open' ? null : unavailableCodes[status.state];
+
+/** メンテナンスの終了までの秒数 (Retry-After 用) */
+export const getRetryAfterSeconds = (status: ServiceStatus, now = Date.now()) => {
+    if (status.state !== 'maintenance' || !status.maintenance?.end) return undefined;
+    return Math.max(1, Math.ceil((new Date(status.maintenance.end).getTime() - now) / 1000));
+};
+
+// 環境変数の設定 (SERVICE_STATUS_URL が使えない場合の既定値)
+const envConfig = (): ServiceStatusConfig =>
+    parseServiceStatusConfig({
+        state: process.env.SERVICE_STATUS || 'open',
+        message: process.env.SERVICE_STATUS_MESSAGE,
+        maintenance: {
+            start: process.env.SERVICE_MAINTENANCE_START,
+            end: process.env.SERVICE_MAINTENANCE_END,
+        },
+    }) ?? { state: 'open' };
+
+export interface ServiceStatusSource {
+    /** 現在の設定を返す (キャッシュが古ければ読み直す) */
+    getConfig: () => Promise<ServiceStatusConfig>;
+}
+
+/**
+ * URL から設定を読み込むソース
+ * cacheMs の間は前回の結果を使い、読み込みに失敗した場合は最後に読めた設定 (なければ fallback) を使う。
+ */
+export const createUrlServiceStatusSource = (
+    url: string,
+    cacheMs: number,
+    fallback: ServiceStatusConfig,
+    fetchImpl: typeof fetch = fetch,
+    now: () => number = Date.now,
+): ServiceStatusSource => {
+    let cached: { config: ServiceStatusConfig; expiresAt: number } | null = null;
+    let lastKnown: ServiceStatusConfig = fallback;
+
+    return {
+        getConfig: async () => {
+            if (cached && cached.expiresAt > now()) return cached.config;
+            try {
+                const response = await fetchImpl(url, { cache: 'no-store', signal: AbortSignal.timeout(3000) });
+                if (!response.ok) throw new Error(`responded with ${response.status}`);
+                const config = parseServiceStatusConfig(await response.json());
+                if (!config) throw new Error('invalid service status');
+                lastKnown = config;
+            } catch (err) {
+                logger.error('service_status.load_failed', { url, error: err });
+            }
+            cached = { config: lastKnown, expiresAt: now() + cacheMs };
+            return lastKnown;
+        },
+    };
+};
+
+let defaultSource: ServiceStatusSource | null = null;
+
+/** API Route で使う現在のサービスの状態 */
+export const getServiceStatus = async (now = Date.now()): Promise<ServiceStatus> => {
+    if (!defaultSource) {
+        const url = process.env.SERVICE_STATUS_URL;
+        defaultSource = url
+            ? createUrlServiceStatusSource(url, Number(process.env.SERVICE_STATUS_CACHE_MS) || 30000, envConfig())
+            : { getConfig: async () => envConfig() };
+    }
+    return resolveServiceStatus(await defaultSource.getConfig(), now);
+};
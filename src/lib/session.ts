@@ -0,0 +1,17 @@
+// lib/session.ts
+// ブラウザのタブごとのセッションID (レート制限などでクライアントを区別するために送る)
+
+const SESSION_STORAGE_KEY = 'senpaichat-session-id';
+
+export const getSessionId = (): string => {
+    try {
+        const existing = sessionStorage.getItem(SESSION_STORAGE_KEY);
+        if (existing) return existing;
+        const sessionId = crypto.randomUUID();
+        sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+        return sessionId;
+    } catch {
+        // sessionStorage が使えない環境では毎回新しいIDになる
+        return crypto.randomUUID();
+    }
+};
@@ -0,0 +1,113 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createShareToken, hashShareToken, isShareActive, isShareId, redactSharePayload, validateSharePayload } from '@/lib/share';
+import { createFileShareStore, createMemoryShareStore, type ShareStore } from '@/lib/shareStore';
+import type { ShareRecord } from '@/types/share';
+
+const messages = [
+    { role: 'user', content: '入学金はいくらですか' },
+    { role: 'assistant', content: '2025年4月1日までに 282,000 円を納めてください。', sources: [{ title: '募集要項', url: 'https://example.ac.jp/a' }] },
+];
+
+const record = (id: string, overrides: Partial<ShareRecord> = {}): ShareRecord => ({
+    id,
+    title: 'test',
+    messages: [],
+    createdAt: '2025-04-01T00:00:00.000Z',
+    revokeTokenHash: 'hash',
+    ...overrides,
+});
+
+describe('validateSharePayload', () => {
+    it('正しい会話を受け付け、既定のタイトルを付ける', () => {
+        const result = validateSharePayload({ messages, expiresInDays: 7 });
+        expect(result.ok && result.share).toMatchObject({ title: 'SenpaiChat', expiresInDays: 7, messages: [{ id: 'user-0' }, { id: 'assistant-1' }] });
+    });
+
+    it('メッセージ数・合計の文字数・有効期限が範囲外なら拒否する', () => {
+        expect(validateSharePayload({ messages: [] }).ok).toBe(false);
+        expect(validateSharePayload({ messages: [{ role: 'system', content: 'x' }] }).ok).toBe(false);
+        expect(validateSharePayload({ messages, expiresInDays: 0 }).ok).toBe(false);
+        const long = Array.from({ length: 11 }, () => ({ role: 'user', content: 'あ'.repeat(20000) }));
+        expect(validateSharePayload({ messages: long })).toEqual({ ok: false, error: 'messages must contain at most 200000 characters in total.' });
+    });
+});
+
+describe('redactSharePayload', () => {
+    it('個人情報は伏せ、日付や金額は残す', () => {
+        const result = validateSharePayload({ title: '090-1234-5678 の件', messages: [...messages, { role: 'user', content: '学籍番号は2412345です' }] });
+        if (!result.ok) throw new Error(result.error);
+        const redacted = redactSharePayload(result.share);
+        expect(redacted.title).toBe('[PHONE] の件');
+        expect(redacted.messages.map((msg) => msg.content)).toEqual([
+            '入学金はいくらですか',
+            '2025年4月1日までに 282,000 円を納めてください。',
+            '学籍番号は[STUDENT_ID]です',
+        ]);
+    });
+});
+
+describe('share tokens', () => {
+    it('ID の形式を確かめ、トークンはハッシュで比べる', async () => {
+        const token = createShareToken();
+        expect(isShareId(token)).toBe(true);
+        expect(isShareId('../etc/passwd')).toBe(false);
+        expect(await hashShareToken(token)).toBe(await hashShareToken(token));
+        expect(await hashShareToken(token)).not.toBe(token);
+    });
+
+    it('停止・期限切れの共有は無効', () => {
+        const now = new Date('2025-05-01T00:00:00.000Z');
+        expect(isShareActive(record('a'), now)).toBe(true);
+        expect(isShareActive(record('a', { expiresAt: '2025-04-30T00:00:00.000Z' }), now)).toBe(false);
+        expect(isShareActive(record('a', { revokedAt: '2025-04-02T00:00:00.000Z' }), now)).toBe(false);
+    });
+});
+
+// メモリとファイルのストアで同じ振る舞いを確かめる
+const describeStore = (name: string, createStore: () => Promise<ShareStore>) => {
+    describe(name, () => {
+        const now = new Date('2025-05-01T00:00:00.000Z');
+        const ids = { active: 'a'.repeat(32), expired: 'b'.repeat(32), revoked: 'c'.repeat(32) };
+
+        it('保存・取得・停止ができる', async () => {
+            const store = await createStore();
+            await store.save(record(ids.active));
+            expect(await store.get(ids.active)).toMatchObject({ id: ids.active });
+            expect(await store.get(ids.expired)).toBeNull();
+            expect(await store.revoke(ids.active, now)).toBe(true);
+            expect((await store.get(ids.active))?.revokedAt).toBe(now.toISOString());
+            expect(await store.revoke(ids.expired, now)).toBe(false);
+        });
+
+        it('件数を数え、停止・期限切れの共有を削除する', async () => {
+            const store = await createStore();
+            expect(await store.count()).toBe(0);
+            await store.save(record(ids.active));
+            await store.save(record(ids.expired, { expiresAt: '2025-04-30T00:00:00.000Z' }));
+            await store.save(record(ids.revoked, { revokedAt: '2025-04-02T00:00:00.000Z' }));
+            expect(await store.count()).toBe(3);
+
+            expect(await store.prune(now)).toBe(2);
+            expect(await store.count()).toBe(1);
+            expect(await store.get(ids.active)).not.toBeNull();
+            expect(await store.get(ids.expired)).toBeNull();
+        });
+    });
+};
+
+describeStore('createMemoryShareStore', async () => createMemoryShareStore());
+
+describe('createFileShareStore', () => {
+    let directory: string;
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'senpaichat-share-'));
+    });
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    describeStore('ファイル', async () => createFileShareStore(join(directory, 'shares')));
+});
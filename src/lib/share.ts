@@ -0,0 +1,100 @@
+// lib/share.ts
+// 会話の共有リンク: /api/share に送られた会話の検証と、保存前の個人情報の除去
+import { redact } from '@/lib/redact';
+import type { Source } from '@/types/chat';
+import type { SharedMessage, SharePayload, ShareRecord } from '@/types/share';
+
+const MAX_MESSAGES = 200;
+const MAX_TITLE_LENGTH = 100;
+const MAX_TEXT_LENGTH = 20000; // 1 メッセージあたりの最大文字数
+const MAX_TOTAL_TEXT_LENGTH = 200000; // 全メッセージの合計の最大文字数
+const MAX_SOURCES = 20;
+const MAX_EXPIRY_DAYS = 365;
+
+export type ShareValidationResult =
+    | { ok: true; share: SharePayload }
+    | { ok: false; error: string };
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+
+const toSources = (value: unknown): Source[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    return value
+        .filter((item) => typeof item === 'object' && item !== null && typeof item.title === 'string')
+        .slice(0, MAX_SOURCES)
+        .map((item) => ({
+            title: item.title,
+            url: optionalString(item.url),
+            snippet: optionalString(item.snippet),
+        }));
+};
+
+const toMessage = (value: unknown, index: number): SharedMessage | null => {
+    if (typeof value !== 'object' || value === null) return null;
+    const item = value as Record<string, unknown>;
+    if ((item.role !== 'user' && item.role !== 'assistant') || typeof item.content !== 'string') return null;
+    const timestamp = optionalString(item.timestamp);
+    return {
+        id: optionalString(item.id) ?? `${item.role}-${index}`,
+        role: item.role,
+        content: item.content.substring(0, MAX_TEXT_LENGTH),
+        timestamp: timestamp && !Number.isNaN(Date.parse(timestamp)) ? timestamp : undefined,
+        sources: toSources(item.sources),
+    };
+};
+
+export const validateSharePayload = (body: unknown): ShareValidationResult => {
+    if (typeof body !== 'object' || body === null) {
+        return { ok: false, error: 'Request body must be a JSON object.' };
+    }
+    const value = body as Record<string, unknown>;
+
+    if (!Array.isArray(value.messages) || value.messages.length === 0 || value.messages.length > MAX_MESSAGES) {
+        return { ok: false, error: `messages must contain 1 to ${MAX_MESSAGES} messages.` };
+    }
+    const messages = value.messages.map(toMessage);
+    const invalidIndex = messages.indexOf(null);
+    if (invalidIndex !== -1) {
+        return { ok: false, error: `messages[${invalidIndex}] must have a role and content.` };
+    }
+    const totalLength = (messages as SharedMessage[]).reduce((sum, msg) => sum + msg.content.length, 0);
+    if (totalLength > MAX_TOTAL_TEXT_LENGTH) {
+        return { ok: false, error: `messages must contain at most ${MAX_TOTAL_TEXT_LENGTH} characters in total.` };
+    }
+    if (value.expiresInDays !== undefined
+        && (!Number.isInteger(value.expiresInDays) || (value.expiresInDays as number) < 1 || (value.expiresInDays as number) > MAX_EXPIRY_DAYS)) {
+        return { ok: false, error: `expiresInDays must be an integer between 1 and ${MAX_EXPIRY_DAYS}.` };
+    }
+
+    return {
+        ok: true,
+        share: {
+            title: (optionalString(value.title) ?? 'SenpaiChat').substring(0, MAX_TITLE_LENGTH),
+            messages: messages as SharedMessage[],
+            backendId: optionalString(value.backendId),
+            expiresInDays: value.expiresInDays as number | undefined,
+        },
+    };
+};
+
+/** 保存する前に、タイトルとメッセージの本文からメールアドレス・電話番号・学籍番号などを伏せる */
+export const redactSharePayload = (share: SharePayload): SharePayload => ({
+    ...share,
+    title: redact(share.title),
+    messages: share.messages.map((msg) => ({ ...msg, content: redact(msg.content) })),
+});
+
+/** 推測されにくい ID とトークン (URL にそのまま使える) */
+export const createShareToken = () => crypto.randomUUID().replace(/-/g, '');
+
+/** /share/<id> に使う ID の形式 (ファイル名にも使うため、それ以外は受け付けない) */
+export const isShareId = (value: string) => /^[a-f0-9]{32}$/.test(value);
+
+export const hashShareToken = async (token: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** 停止も期限切れもしていない共有か */
+export const isShareActive = (record: ShareRecord, now = new Date()) =>
+    !record.revokedAt && (!record.expiresAt || new Date(record.expiresAt) > now);
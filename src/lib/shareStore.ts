@@ -0,0 +1,107 @@
+// lib/shareStore.ts
+// 共有した会話の保存先
+// 既定はローカルのディレクトリに 1 件 1 ファイルの JSON で保存する。
+// 複数インスタンスで共有する場合やデータベースに保存する場合は ShareStore を実装して差し替える。
+import { mkdir, readdir, readFile, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { isShareActive, isShareId } from '@/lib/share';
+import type { ShareRecord } from '@/types/share';
+
+export interface ShareStore {
+    save: (record: ShareRecord) => Promise<void>;
+    get: (id: string) => Promise<ShareRecord | null>;
+    /** 共有を停止する (停止済みの記録は残す)。見つからなければ false */
+    revoke: (id: string, revokedAt: Date) => Promise<boolean>;
+    /** 保存している共有の件数 (停止・期限切れを含む) */
+    count: () => Promise<number>;
+    /** 停止・期限切れの共有を削除し、削除した件数を返す (削除した共有は見つからない扱いになる) */
+    prune: (now: Date) => Promise<number>;
+}
+
+/** id は isShareId で検証済みであること (ファイル名に使う) */
+export const createFileShareStore = (directory: string): ShareStore => {
+    const filePath = (id: string) => join(directory, `${id}.json`);
+
+    const listIds = async () => {
+        try {
+            return (await readdir(directory))
+                .filter((name) => name.endsWith('.json'))
+                .map((name) => name.slice(0, -'.json'.length))
+                .filter(isShareId);
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw err;
+        }
+    };
+
+    const get = async (id: string) => {
+        try {
+            return JSON.parse(await readFile(filePath(id), 'utf8')) as ShareRecord;
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw err;
+        }
+    };
+    const save = async (record: ShareRecord) => {
+        await mkdir(directory, { recursive: true });
+        await writeFile(filePath(record.id), JSON.stringify(record), 'utf8');
+    };
+
+    return {
+        save,
+        get,
+        revoke: async (id, revokedAt) => {
+            const record = await get(id);
+            if (!record) return false;
+            if (!record.revokedAt) await save({ ...record, revokedAt: revokedAt.toISOString() });
+            return true;
+        },
+        count: async () => (await listIds()).length,
+        prune: async (now) => {
+            let count = 0;
+            for (const id of await listIds()) {
+                const record = await get(id);
+                if (record && !isShareActive(record, now)) {
+                    await unlink(filePath(id)).catch(() => {});
+                    count++;
+                }
+            }
+            return count;
+        },
+    };
+};
+
+/** テスト用 */
+export const createMemoryShareStore = (): ShareStore => {
+    const records = new Map<string, ShareRecord>();
+    return {
+        save: async (record) => {
+            records.set(record.id, record);
+        },
+        get: async (id) => records.get(id) ?? null,
+        revoke: async (id, revokedAt) => {
+            const record = records.get(id);
+            if (!record) return false;
+            if (!record.revokedAt) records.set(id, { ...record, revokedAt: revokedAt.toISOString() });
+            return true;
+        },
+        count: async () => records.size,
+        prune: async (now) => {
+            let count = 0;
+            for (const [id, record] of records) {
+                if (!isShareActive(record, now) && records.delete(id)) count++;
+            }
+            return count;
+        },
+    };
+};
+
+let defaultStore: ShareStore | null = null;
+
+/** API Route とページで使う既定のストア (SHARE_STORE_DIR、既定は data/shares) */
+export const getShareStore = (): ShareStore => {
+    if (!defaultStore) {
+        defaultStore = createFileShareStore(process.env.SHARE_STORE_DIR || 'data/shares');
+    }
+    return defaultStore;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { createSSEParser, formatSSEEvent, parseSources, parseSuggestions, type SSEEvent } from '@/lib/sse';
+
+// チャンクを順に投入し、flush までに確定したイベントをすべて返す
+const parseChunks = (chunks: string[]) => {
+    const parser = createSSEParser();
+    const events: SSEEvent[] = [];
+    for (const chunk of chunks) events.push(...parser.feed(chunk));
+    events.push(...parser.flush());
+    return { parser, events };
+};
+
+describe('createSSEParser', () => {
+    it('チャンクをまたいだ data: 行を 1 つのイベントにする', () => {
+        const { events } = parseChunks(['da', 'ta: こんに', 'ちは\n', '\n']);
+        expect(events).toEqual([{ type: 'message', data: 'こんにちは', id: undefined }]);
+    });
+
+    it('空行が来るまでイベントを確定しない', () => {
+        const parser = createSSEParser();
+        expect(parser.feed('data: first\n')).toEqual([]);
+        expect(parser.feed('data: second\n')).toEqual([]);
+        expect(parser.feed('\n')).toEqual([{ type: 'message', data: 'first\nsecond', id: undefined }]);
+    });
+
+    it('空行で区切られたイベントを別々に返す', () => {
+        const { events } = parseChunks(['data: a\n\ndata: b\n\n']);
+        expect(events).toEqual([
+            { type: 'message', data: 'a', id: undefined },
+            { type: 'message', data: 'b', id: undefined },
+        ]);
+    });
+
+    it('\\r\\n と、チャンクの境界で分かれた \\r\\n を 1 つの改行として扱う', () => {
+        const { events } = parseChunks(['data: a\r', '\n\r\n', 'data: b\r\n\r\n']);
+        expect(events.map((event) => event.type === 'message' && event.data)).toEqual(['a', 'b']);
+    });
+
+    it('event: でイベントの種類を切り替える', () => {
+        const { events } = parseChunks([
+            'event: sources\ndata: [{"title":"学生便覧","url":"https://example.ac.jp/handbook"}]\n\n',
+            'event: suggestions\ndata: ["次の質問"]\n\n',
+            'event: error\ndata: {"code":"UPSTREAM_IDLE_TIMEOUT","message":"timeout"}\n\n',
+        ]);
+        expect(events).toEqual([
+            { type: 'sources', sources: [{ title: '学生便覧', url: 'https://example.ac.jp/handbook', snippet: undefined }], id: undefined },
+            { type: 'suggestions', suggestions: ['次の質問'], id: undefined },
+            { type: 'error', data: 'timeout', code: 'UPSTREAM_IDLE_TIMEOUT', id: undefined },
+        ]);
+    });
+
+    it('未知のイベント名と形式が不正な sources は無視する', () => {
+        const { events } = parseChunks(['event: ping\ndata: x\n\nevent: sources\ndata: not json\n\ndata: ok\n\n']);
+        expect(events).toEqual([{ type: 'message', data: 'ok', id: undefined }]);
+    });
+
+    it('id: と retry: を記録する', () => {
+        const { parser, events } = parseChunks(['id: 42\nretry: 3000\ndata: a\n\n', 'retry: soon\ndata: b\n\n']);
+        expect(events).toEqual([
+            { type: 'message', data: 'a', id: '42' },
+            { type: 'message', data: 'b', id: '42' },
+        ]);
+        expect(parser.lastEventId).toBe('42');
+        expect(parser.retry).toBe(3000);
+    });
+
+    it('コメント行と data のない空行は無視する', () => {
+        const { events } = parseChunks([': keep-alive\n\n\ndata: a\n\n']);
+        expect(events).toEqual([{ type: 'message', data: 'a', id: undefined }]);
+    });
+
+    it('</chank> を行とイベントの終わりとして扱う (チャンクをまたいでも)', () => {
+        const { events } = parseChunks(['data: 前半</ch', 'ank>data: 後半</chank>']);
+        expect(events).toEqual([
+            { type: 'message', data: '前半', id: undefined },
+            { type: 'message', data: '後半', id: undefined },
+        ]);
+    });
+
+    it('data: [DONE] で終了し、それ以降のイベントを返さない', () => {
+        const { events } = parseChunks(['data: a\n\ndata: [DONE]\n\ndata: b\n\n']);
+        expect(events).toEqual([{ type: 'message', data: 'a', id: undefined }, { type: 'done' }]);
+    });
+
+    it('data: の外に単独で送られてくる <end> で終了する', () => {
+        const { events } = parseChunks(['data: a\n<end>\ndata: b\n\n']);
+        expect(events).toEqual([{ type: 'message', data: 'a', id: undefined }, { type: 'done' }]);
+    });
+
+    it('flush でバッファに残った最後の行を確定させる', () => {
+        const parser = createSSEParser();
+        expect(parser.feed('data: tail')).toEqual([]);
+        expect(parser.flush()).toEqual([{ type: 'message', data: 'tail', id: undefined }]);
+    });
+});
+
+describe('formatSSEEvent', () => {
+    it('改行を含む data を複数の data: 行に分け、パーサーで元に戻せる', () => {
+        const formatted = formatSSEEvent({ event: 'error', data: 'line1\nline2' });
+        expect(formatted).toBe('event: error\ndata: line1\ndata: line2\n\n');
+        expect(parseChunks([formatted]).events).toEqual([{ type: 'error', data: 'line1\nline2', id: undefined }]);
+    });
+});
+
+describe('parseSources / parseSuggestions', () => {
+    it('配列とオブジェクトの両方の形式を受け付ける', () => {
+        expect(parseSources('{"sources":[{"title":"a"},{"url":"no title"}]}')).toEqual([{ title: 'a', url: undefined, snippet: undefined }]);
+        expect(parseSuggestions('{"suggestions":[" a ",{"text":"b"},"",1]}')).toEqual(['a', 'b']);
+        expect(parseSuggestions('oops')).toBeNull();
+    });
+});
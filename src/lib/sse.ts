@@ -0,0 +1,245 @@
+// lib/sse.ts
+// RAG API から届く SSE ストリームのパーサー
+// ネットワークの読み取り単位 (チャンク) と SSE の行・イベント境界は一致しないため、
+// 未完成の行はバッファに保持し、行が揃った時点でイベントとして組み立てる。
+// 参考: https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+
+import { debugLog } from '@/lib/debug';
+import type { Source } from '@/types/chat';
+
+// バックエンド独自のマーカー
+const CHUNK_END_MARKER = '</chank>'; // data の末尾に付与される区切り
+const END_MARKERS = ['[DONE]', '<end>']; // ストリーム終了
+
+export type SSEEvent =
+    | { type: 'message'; data: string; id?: string }
+    | { type: 'error'; data: string; code?: string; id?: string }
+    | { type: 'sources'; sources: Source[]; id?: string }
+    | { type: 'suggestions'; suggestions: string[]; id?: string }
+    | { type: 'done' };
+
+export interface SSEParser {
+    /** デコード済みのチャンクを投入し、確定したイベントを返す */
+    feed: (chunk: string) => SSEEvent[];
+    /** ストリーム終端で呼び出し、バッファに残ったイベントを確定させる */
+    flush: () => SSEEvent[];
+    /** 最後に受信した id: フィールド */
+    readonly lastEventId: string;
+    /** サーバーから指定された再接続間隔 (ms) */
+    readonly retry: number | null;
+}
+
+/**
+ * sources イベントの data を解析する
+ * 形式: [{ "title": "...", "url": "...", "snippet": "..." }] または { "sources": [...] }
+ */
+export const parseSources = (data: string): Source[] | null => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(data);
+    } catch {
+        return null;
+    }
+    const items = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { sources?: unknown } | null)?.sources;
+    if (!Array.isArray(items)) return null;
+
+    return items
+        .filter((item): item is Record<string, unknown> =>
+            typeof item === 'object' && item !== null && typeof item.title === 'string')
+        .map((item) => ({
+            title: item.title as string,
+            url: typeof item.url === 'string' ? item.url : undefined,
+            snippet: typeof item.snippet === 'string' ? item.snippet : undefined,
+        }));
+};
+
+/**
+ * suggestions イベント (次の質問の候補) の data を解析する
+ * 形式: ["...", "..."] または { "suggestions": [...] } (要素は文字列か { "text": "..." })
+ */
+export const parseSuggestions = (data: string): string[] | null => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(data);
+    } catch {
+        return null;
+    }
+    const items = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { suggestions?: unknown } | null)?.suggestions;
+    if (!Array.isArray(items)) return null;
+
+    return items
+        .map((item) => (typeof item === 'string' ? item : (item as { text?: unknown } | null)?.text))
+        .filter((text): text is string => typeof text === 'string' && text.trim() !== '')
+        .map((text) => text.trim());
+};
+
+/**
+ * error イベントの data を解析する
+ * 形式: { "code": "UPSTREAM_IDLE_TIMEOUT", "message": "..." } またはプレーンテキスト
+ */
+const parseError = (data: string): { data: string; code?: string } => {
+    try {
+        const parsed = JSON.parse(data);
+        if (typeof parsed === 'object' && parsed !== null && typeof parsed.message === 'string') {
+            return { data: parsed.message, code: typeof parsed.code === 'string' ? parsed.code : undefined };
+        }
+    } catch {
+        // JSON でなければメッセージとしてそのまま扱う
+    }
+    return { data };
+};
+
+/** SSE のイベントを 1 つ組み立てる (data の改行は複数の data: 行に分ける) */
+export const formatSSEEvent = ({ event, data }: { event?: string; data: string }) => {
+    const lines = event ? [`event: ${event}`] : [];
+    for (const line of data.split(/\r\n|\r|\n/)) {
+        lines.push(`data: ${line}`);
+    }
+    return `${lines.join('\n')}\n\n`;
+};
+
+export const createSSEParser = (): SSEParser => {
+    let buffer = '';
+    let eventName = '';
+    let dataLines: string[] = [];
+    let lastEventId = '';
+    let retry: number | null = null;
+    let ended = false;
+
+    // 空行 (またはバックエンドの </chank>) でイベントを確定させる
+    const dispatch = (events: SSEEvent[]) => {
+        const name = eventName || 'message';
+        const hasData = dataLines.length > 0;
+        const data = dataLines.join('\n');
+        eventName = '';
+        dataLines = [];
+
+        if (!hasData || ended) return;
+
+        if (END_MARKERS.includes(data.trim())) {
+            ended = true;
+            events.push({ type: 'done' });
+            return;
+        }
+
+        const id = lastEventId || undefined;
+        if (name === 'error') {
+            events.push({ type: 'error', ...parseError(data), id });
+        } else if (name === 'message') {
+            events.push({ type: 'message', data, id });
+        } else if (name === 'sources') {
+            const sources = parseSources(data);
+            if (sources) {
+                events.push({ type: 'sources', sources, id });
+            } else {
+                debugLog('SSE: Ignoring malformed sources event.');
+            }
+        } else if (name === 'suggestions') {
+            const suggestions = parseSuggestions(data);
+            if (suggestions) {
+                events.push({ type: 'suggestions', suggestions, id });
+            } else {
+                debugLog('SSE: Ignoring malformed suggestions event.');
+            }
+        }
+        // 未知のイベント名は仕様どおり無視する
+    };
+
+    const processLine = (line: string, events: SSEEvent[]) => {
+        if (line === '') {
+            dispatch(events);
+            return;
+        }
+        // data: の外に単独で送られてくる終了マーカー
+        if (END_MARKERS.includes(line.trim())) {
+            dispatch(events);
+            if (!ended) {
+                ended = true;
+                events.push({ type: 'done' });
+            }
+            return;
+        }
+        // コメント行
+        if (line.startsWith(':')) return;
+
+        const colonIndex = line.indexOf(':');
+        const field = colonIndex === -1 ? line : line.substring(0, colonIndex);
+        let value = colonIndex === -1 ? '' : line.substring(colonIndex + 1);
+        if (value.startsWith(' ')) value = value.substring(1);
+
+        switch (field) {
+            case 'event':
+                eventName = value;
+                break;
+            case 'data':
+                dataLines.push(value);
+                break;
+            case 'id':
+                if (!value.includes('\0')) lastEventId = value;
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) retry = Number(value);
+                break;
+            default:
+                // 未知のフィールドは無視
+                break;
+        }
+    };
+
+    // バッファから完成した行を取り出して処理する
+    const drain = (events: SSEEvent[], final: boolean) => {
+        while (buffer.length > 0) {
+            const newlineIndex = buffer.search(/\r\n|\r|\n/);
+            const chankIndex = buffer.indexOf(CHUNK_END_MARKER);
+
+            if (chankIndex !== -1 && (newlineIndex === -1 || chankIndex < newlineIndex)) {
+                // </chank> は行の終わりかつイベントの終わりとして扱う
+                processLine(buffer.substring(0, chankIndex), events);
+                dispatch(events);
+                buffer = buffer.substring(chankIndex + CHUNK_END_MARKER.length);
+                continue;
+            }
+
+            if (newlineIndex === -1) break;
+
+            // \r でチャンクが終わっている場合、次のチャンクの \n と対になる可能性があるため待つ
+            if (buffer[newlineIndex] === '\r' && newlineIndex === buffer.length - 1 && !final) break;
+
+            const newlineLength = buffer.startsWith('\r\n', newlineIndex) ? 2 : 1;
+            processLine(buffer.substring(0, newlineIndex), events);
+            buffer = buffer.substring(newlineIndex + newlineLength);
+        }
+
+        if (final) {
+            if (buffer.length > 0) {
+                processLine(buffer, events);
+                buffer = '';
+            }
+            dispatch(events);
+        }
+    };
+
+    return {
+        feed: (chunk: string) => {
+            const events: SSEEvent[] = [];
+            buffer += chunk;
+            drain(events, false);
+            return events;
+        },
+        flush: () => {
+            const events: SSEEvent[] = [];
+            drain(events, true);
+            return events;
+        },
+        get lastEventId() {
+            return lastEventId;
+        },
+        get retry() {
+            return retry;
+        },
+    };
+};
@@ -0,0 +1,75 @@
+// lib/streamMetrics.ts
+// クライアントに返した SSE ストリームの計測 (バイト数とトークン数)
+import { createSSEParser } from '@/lib/sse';
+
+export interface StreamStats {
+    bytes: number;
+    tokens: number; // 回答のイベント数 (バックエンドは 1 トークンずつ data を送る)
+    durationMs: number;
+    outcome: 'completed' | 'error' | 'cancelled';
+    errorCode?: string; // error イベントのコード (ストリーム途中の上流の障害など)
+}
+
+/** ストリームをそのまま転送しつつ計測し、終わったとき (最後まで読まれた・エラー・キャンセル) に onDone を呼ぶ */
+export const measureStream = (
+    stream: ReadableStream<Uint8Array>,
+    onDone: (stats: StreamStats) => void,
+    now: () => number = Date.now,
+): ReadableStream<Uint8Array> => {
+    const startedAt = now();
+    const decoder = new TextDecoder();
+    const parser = createSSEParser();
+    const reader = stream.getReader();
+    let bytes = 0;
+    let tokens = 0;
+    let hasError = false;
+    let errorCode: string | undefined;
+    let finished = false;
+
+    const finish = (outcome: StreamStats['outcome']) => {
+        if (finished) return;
+        finished = true;
+        onDone({
+            bytes,
+            tokens,
+            durationMs: now() - startedAt,
+            outcome: hasError && outcome === 'completed' ? 'error' : outcome,
+            errorCode,
+        });
+    };
+
+    const count = (chunk: Uint8Array) => {
+        bytes += chunk.byteLength;
+        for (const event of parser.feed(decoder.decode(chunk, { stream: true }))) {
+            if (event.type === 'message') tokens++;
+            if (event.type === 'error') {
+                hasError = true;
+                errorCode = event.code;
+            }
+            // クライアントは終了マーカーで読むのをやめてキャンセルするため、ここで完了とする
+            if (event.type === 'done') finish('completed');
+        }
+    };
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { value, done } = await reader.read();
+                if (done) {
+                    finish('completed');
+                    controller.close();
+                } else {
+                    count(value);
+                    controller.enqueue(value);
+                }
+            } catch (err) {
+                finish('error');
+                controller.error(err);
+            }
+        },
+        cancel(reason) {
+            finish('cancelled');
+            return reader.cancel(reason);
+        },
+    });
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { deriveSuggestionsFromSources, withFallbackSuggestions } from '@/lib/suggestions';
+import type { Source } from '@/types/chat';
+
+const encoder = new TextEncoder();
+
+// テキストを size バイトずつのチャンクにして流す
+const streamOf = (text: string, size = Infinity) => {
+    const bytes = encoder.encode(text);
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (let i = 0; i < bytes.length; i += Math.min(size, bytes.length)) controller.enqueue(bytes.slice(i, i + size));
+            controller.close();
+        },
+    });
+};
+
+const derive = (sources: Source[]) => sources.map((source) => `${source.title}について`);
+const run = (text: string, size?: number) => new Response(withFallbackSuggestions(streamOf(text, size), derive)).text();
+
+const SOURCES = 'event: sources\ndata: [{"title":"学費"}]\n\n';
+const SUGGESTIONS = 'event: suggestions\ndata: ["学費について"]\n\n';
+
+describe('withFallbackSuggestions', () => {
+    it('出典から作った suggestions を [DONE] の直前に差し込む', async () => {
+        expect(await run(`data: 回答\n\n${SOURCES}data: [DONE]\n\n`)).toBe(`data: 回答\n\n${SOURCES}${SUGGESTIONS}data: [DONE]\n\n`);
+    });
+
+    it('上流が suggestions を送った場合や出典がない場合は差し込まない', async () => {
+        const withSuggestions = `${SOURCES}event: suggestions\ndata: ["寮について"]\n\ndata: [DONE]\n\n`;
+        expect(await run(withSuggestions)).toBe(withSuggestions);
+        expect(await run('data: 回答\n\ndata: [DONE]\n\n')).toBe('data: 回答\n\ndata: [DONE]\n\n');
+    });
+
+    it('チャンクの境界でイベントが分かれても、イベントの途中には差し込まない', async () => {
+        const input = `data: 回答\n\n${SOURCES}data: [DONE]\n\n`;
+        for (const size of [1, 3, 7]) {
+            expect(await run(input, size)).toBe(`data: 回答\n\n${SOURCES}${SUGGESTIONS}data: [DONE]\n\n`);
+        }
+    });
+
+    it('\\r だけの改行も行の区切りとして扱う', async () => {
+        const input = 'event: sources\rdata: [{"title":"学費"}]\r\rdata: [DONE]\r\r';
+        for (const size of [Infinity, 1]) {
+            expect(await run(input, size)).toBe(`event: sources\rdata: [{"title":"学費"}]\r\r${SUGGESTIONS}data: [DONE]\r\r`);
+        }
+    });
+
+    it('終了マーカーなしで終わったストリームには末尾に追加する', async () => {
+        expect(await run(`${SOURCES}data: 回答`)).toBe(`${SOURCES}data: 回答\n\n${SUGGESTIONS}`);
+    });
+});
+
+describe('deriveSuggestionsFromSources', () => {
+    it('同じタイトルは 1 つにまとめ、上限までにする', () => {
+        const sources = ['学費', '学費', '寮', '奨学金', '履修'].map((title) => ({ title }));
+        expect(deriveSuggestionsFromSources(sources, 'ja', 3)).toHaveLength(3);
+        expect(new Set(deriveSuggestionsFromSources(sources, 'ja')).size).toBe(3);
+    });
+});
@@ -0,0 +1,111 @@
+// lib/suggestions.ts
+// 回答のあとに表示する「次の質問」の候補
+// バックエンドが event: suggestions を送らない場合、/api/generate が回答の出典から候補を作り、
+// 終了マーカーの直前に suggestions イベントとして差し込む。
+import { createSSEParser, formatSSEEvent, type SSEEvent } from '@/lib/sse';
+import { DEFAULT_LOCALE, formatMessage, getMessages, type Locale } from '@/lib/i18n';
+import type { Source } from '@/types/chat';
+
+export const MAX_SUGGESTIONS = 3;
+
+const CHUNK_END_MARKER = '</chank>';
+
+/** 出典のタイトルから次の質問の候補を作る (同じタイトルは 1 つにまとめる) */
+export const deriveSuggestionsFromSources = (sources: Source[], locale: Locale = DEFAULT_LOCALE, max = MAX_SUGGESTIONS): string[] => {
+    const titles = Array.from(new Set(sources.map((source) => source.title.trim()).filter(Boolean)));
+    const template = getMessages(locale).suggestions.fromSource;
+    return titles.slice(0, max).map((title) => formatMessage(template, { title }));
+};
+
+// 次の行・イベントの区切り (\r\n・\n・\r または </chank>) までの長さ。区切りがなければ -1
+// 末尾の \r は次のチャンクの \n と組になるかもしれないため、続きが届くまで区切りとみなさない (lib/sse.ts と同じ)
+const nextSegmentLength = (text: string) => {
+    const newlineIndex = text.search(/\r\n|\r(?!$)|\n/);
+    const chankIndex = text.indexOf(CHUNK_END_MARKER);
+    if (chankIndex !== -1 && (newlineIndex === -1 || chankIndex < newlineIndex)) {
+        return chankIndex + CHUNK_END_MARKER.length;
+    }
+    if (newlineIndex === -1) return -1;
+    return newlineIndex + (text.startsWith('\r\n', newlineIndex) ? 2 : 1);
+};
+
+/**
+ * 上流の SSE ストリームをそのまま転送しつつ、suggestions イベントがなければ出典から作って差し込む。
+ * 差し込み位置がイベントの途中にならないよう、確定していないイベントの行は確定するまで保留する
+ * (正規化した SSE はイベントごとに空行で終わるため、通常は遅延しない)。
+ * エラーで終わった回答や出典のない回答には差し込まない。
+ */
+export const withFallbackSuggestions = (
+    stream: ReadableStream<Uint8Array>,
+    derive: (sources: Source[]) => string[] = (sources) => deriveSuggestionsFromSources(sources),
+): ReadableStream<Uint8Array> => {
+    const decoder = new TextDecoder();
+    const encoder = new TextEncoder();
+    const parser = createSSEParser();
+    let buffer = ''; // 区切りまで届いていないテキスト
+    let pending = ''; // 確定していないイベントの行
+    let sources: Source[] = [];
+    let hasSuggestions = false;
+    let hasError = false;
+    let inserted = false;
+
+    const fallbackEvent = () => {
+        if (inserted || hasSuggestions || hasError || sources.length === 0) return '';
+        inserted = true;
+        const suggestions = derive(sources);
+        return suggestions.length > 0 ? formatSSEEvent({ event: 'suggestions', data: JSON.stringify(suggestions) }) : '';
+    };
+
+    // イベントを記録し、終了マーカーがあれば差し込むイベントを返す
+    const track = (events: SSEEvent[]) => {
+        let output = '';
+        for (const event of events) {
+            if (event.type === 'sources') sources = event.sources;
+            if (event.type === 'suggestions') hasSuggestions = true;
+            if (event.type === 'error') hasError = true;
+            // クライアントは終了マーカーで読むのをやめるため、その前に差し込む
+            if (event.type === 'done') output += fallbackEvent();
+        }
+        return output;
+    };
+
+    // 1 行 (または </chank> までの 1 区切り) を処理し、送ってよいテキストを返す
+    const processSegment = (segment: string) => {
+        // 区切りとして切り出した \r は次の \n を待つ必要がないため、パーサーには \n として渡す
+        const events = parser.feed(segment.endsWith('\r') ? `${segment.slice(0, -1)}\n` : segment);
+        let output = track(events);
+        pending += segment;
+        if (events.length > 0 || segment.trim() === '' || segment.endsWith(CHUNK_END_MARKER)) {
+            output += pending;
+            pending = '';
+        }
+        return output;
+    };
+
+    const drain = (controller: TransformStreamDefaultController<Uint8Array>) => {
+        let output = '';
+        let length: number;
+        while ((length = nextSegmentLength(buffer)) !== -1) {
+            output += processSegment(buffer.substring(0, length));
+            buffer = buffer.substring(length);
+        }
+        if (output) controller.enqueue(encoder.encode(output));
+    };
+
+    return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            buffer += decoder.decode(chunk, { stream: true });
+            drain(controller);
+        },
+        flush(controller) {
+            buffer += decoder.decode();
+            drain(controller);
+            // 区切りのない最後の行
+            const beforeEnd = track([...parser.feed(buffer), ...parser.flush()]);
+            // 終了マーカーなしで終わったストリームには末尾に追加する (行の途中にならないよう空行で区切る)
+            const fallback = fallbackEvent();
+            const rest = beforeEnd + pending + buffer + (fallback ? `\n\n${fallback}` : '');
+            if (rest) controller.enqueue(encoder.encode(rest));
+        },
+    }));
+};
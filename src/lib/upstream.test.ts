@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createCircuitBreaker } from '@/lib/circuitBreaker';
+import { createLogger } from '@/lib/logger';
+import { fetchUpstream, UpstreamError, type UpstreamOptions } from '@/lib/upstream';
+
+const options: UpstreamOptions = { connectTimeoutMs: 1000, idleTimeoutMs: 1000, maxRetries: 2, retryBackoffMs: 0 };
+const log = createLogger('error', {}, () => {});
+
+const streamResponse = (...chunks: string[]) =>
+    new Response(new ReadableStream({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+            controller.close();
+        },
+    }));
+
+const readAll = async (body: ReadableStream<Uint8Array> | null) => (body ? new Response(body).text() : '');
+
+describe('fetchUpstream', () => {
+    it('最初のバイトが届く前の失敗を再試行する', async () => {
+        const fetchImpl = vi.fn<typeof fetch>()
+            .mockRejectedValueOnce(new TypeError('fetch failed'))
+            .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+            .mockResolvedValueOnce(streamResponse('data: ok\n\n'));
+        const breaker = createCircuitBreaker({ failureThreshold: 5, resetTimeoutMs: 1000 });
+
+        const { response, body } = await fetchUpstream('http://rag.test', {}, options, breaker, undefined, fetchImpl, log);
+
+        expect(fetchImpl).toHaveBeenCalledTimes(3);
+        expect(response.ok).toBe(true);
+        expect(await readAll(body)).toBe('data: ok\n\n');
+        expect(breaker.state).toBe('closed');
+    });
+
+    it('4xx は再試行せずにそのまま返す', async () => {
+        const fetchImpl = vi.fn<typeof fetch>().mockResolvedValue(new Response('bad', { status: 400 }));
+        const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+
+        const { response, body } = await fetchUpstream('http://rag.test', {}, options, breaker, undefined, fetchImpl, log);
+
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        expect(response.status).toBe(400);
+        expect(body).toBeNull();
+        expect(breaker.state).toBe('closed');
+    });
+
+    it('再試行しきれなければ最後のエラーを投げ、サーキットが open なら接続しない', async () => {
+        const fetchImpl = vi.fn<typeof fetch>().mockImplementation(async () => new Response('down', { status: 502 }));
+        const breaker = createCircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+
+        await expect(fetchUpstream('http://rag.test', {}, options, breaker, undefined, fetchImpl, log))
+            .rejects.toMatchObject({ code: 'UPSTREAM_ERROR', status: 502 });
+        expect(breaker.state).toBe('open');
+
+        await expect(fetchUpstream('http://rag.test', {}, options, breaker, undefined, fetchImpl, log))
+            .rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+        expect(fetchImpl).toHaveBeenCalledTimes(3);
+    });
+
+    it('最初のバイトが制限時間内に届かなければ UPSTREAM_TIMEOUT にする', async () => {
+        const fetchImpl = vi.fn<typeof fetch>().mockImplementation(() => new Promise<Response>(() => {}));
+        const breaker = createCircuitBreaker({ failureThreshold: 5, resetTimeoutMs: 1000 });
+
+        await expect(fetchUpstream('http://rag.test', {}, { ...options, connectTimeoutMs: 10, maxRetries: 0 }, breaker, undefined, fetchImpl, log))
+            .rejects.toMatchObject({ code: 'UPSTREAM_TIMEOUT' });
+    });
+
+    it('half-open の試行中にクライアントが切断したら、試行枠を返して CLIENT_CLOSED_REQUEST を投げる', async () => {
+        let time = 0;
+        const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 }, () => time);
+        breaker.recordFailure();
+        time = 1000;
+
+        const client = new AbortController();
+        const fetchImpl = vi.fn<typeof fetch>().mockImplementation((_url, init) => new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+            client.abort();
+        }));
+
+        const error = await fetchUpstream('http://rag.test', {}, options, breaker, client.signal, fetchImpl, log).catch((err) => err);
+
+        expect(error).toBeInstanceOf(UpstreamError);
+        expect(error.code).toBe('CLIENT_CLOSED_REQUEST');
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+        expect(breaker.state).toBe('half-open');
+        expect(breaker.canRequest()).toBe(true);
+    });
+
+    it('ストリーム途中でデータが途切れたら error イベントを付けて閉じる', async () => {
+        const fetchImpl = vi.fn<typeof fetch>().mockResolvedValue(new Response(new ReadableStream({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('data: partial\n\n'));
+            },
+        })));
+        const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+
+        const { body } = await fetchUpstream('http://rag.test', {}, { ...options, idleTimeoutMs: 10 }, breaker, undefined, fetchImpl, log);
+        const text = await readAll(body);
+
+        expect(text).toContain('data: partial');
+        expect(text).toContain('event: error');
+        expect(text).toContain('UPSTREAM_IDLE_TIMEOUT');
+        expect(breaker.state).toBe('open');
+    });
+
+    it('ストリームの途中でクライアントが切断しても上流の障害として数えない', async () => {
+        // 最初のチャンクのあと応答が止まり、中断されると読み取りが失敗する上流
+        const fetchImpl = vi.fn<typeof fetch>().mockImplementation(async (_url, init) => new Response(new ReadableStream({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode('data: partial\n\n'));
+                init?.signal?.addEventListener('abort', () => controller.error(new DOMException('aborted', 'AbortError')));
+            },
+        })));
+        const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+        const sink = vi.fn();
+
+        const { body } = await fetchUpstream('http://rag.test', {}, options, breaker, undefined, fetchImpl, createLogger('error', {}, sink));
+        const reader = body!.getReader();
+        expect((await reader.read()).done).toBe(false);
+        const pending = reader.read();
+        await reader.cancel();
+        await pending;
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(breaker.state).toBe('closed');
+        expect(sink).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,220 @@
+// lib/upstream.ts
+// RAG API (上流) への接続: タイムアウト、最初のバイトまでのリトライ、サーキットブレーカー、
+// ストリーム途中のエラーを SSE の error イベントとしてクライアントに伝える処理
+import type { CircuitBreaker } from '@/lib/circuitBreaker';
+import { formatSSEEvent } from '@/lib/sse';
+import { logger, type Logger } from '@/lib/logger';
+
+export type UpstreamErrorCode =
+    | 'UPSTREAM_TIMEOUT' // 接続 (最初のバイト) までのタイムアウト
+    | 'UPSTREAM_IDLE_TIMEOUT' // ストリーム途中で一定時間データが届かない
+    | 'UPSTREAM_UNAVAILABLE' // ネットワークエラーなどで接続できない
+    | 'UPSTREAM_ERROR' // 上流が 5xx などのエラーを返した
+    | 'UPSTREAM_STREAM_INTERRUPTED' // ストリームが途中で切断された
+    | 'CIRCUIT_OPEN' // 失敗が続いているため上流への接続を止めている
+    | 'CLIENT_CLOSED_REQUEST'; // 上流の応答を待つ間にクライアントが切断した
+
+export class UpstreamError extends Error {
+    constructor(
+        readonly code: UpstreamErrorCode,
+        message: string,
+        readonly status?: number, // 上流が返した HTTP ステータス
+    ) {
+        super(message);
+        this.name = 'UpstreamError';
+    }
+}
+
+export interface UpstreamOptions {
+    connectTimeoutMs: number; // 最初のバイトが届くまでの制限時間 (1 回の試行あたり)
+    idleTimeoutMs: number; // ストリーム途中でデータが途切れてよい時間
+    maxRetries: number; // 最初のバイトが届く前の失敗を再試行する回数
+    retryBackoffMs: number; // 再試行の待ち時間の基準 (指数的に増やす)
+}
+
+export interface UpstreamResult {
+    response: Response;
+    /** response.ok の場合のみ。アイドルタイムアウトとエラーイベントの付いたストリーム */
+    body: ReadableStream<Uint8Array> | null;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * クライアントに送る error イベント ({ code, message } を JSON で送る)
+ * 上流のイベントが途中で切れていても混ざらないよう、先頭の空行で区切る
+ */
+export const encodeErrorEvent = (code: string, message: string) =>
+    encoder.encode(`\n${formatSSEEvent({ event: 'error', data: JSON.stringify({ code, message }) })}`);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 制限時間内に終わらなければ onTimeout を呼んで UpstreamError で失敗させる
+const withTimeout = <T>(promise: Promise<T>, ms: number, code: UpstreamErrorCode, onTimeout: () => void): Promise<T> =>
+    new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            onTimeout();
+            reject(new UpstreamError(code, `RAG API did not respond within ${ms}ms.`));
+        }, ms);
+        promise.then(
+            (value) => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            (err) => {
+                clearTimeout(timer);
+                reject(err);
+            },
+        );
+    });
+
+const clientClosedError = () => new UpstreamError('CLIENT_CLOSED_REQUEST', 'The client closed the request.');
+
+const toUpstreamError = (err: unknown): UpstreamError => {
+    if (err instanceof UpstreamError) return err;
+    const message = err instanceof Error ? err.message : String(err);
+    return new UpstreamError('UPSTREAM_UNAVAILABLE', `Failed to connect to RAG API: ${message}`);
+};
+
+// 最初のチャンクを先に流し、以降はアイドルタイムアウトを監視しながら転送する
+const createResilientStream = (
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    firstChunk: ReadableStreamReadResult<Uint8Array>,
+    idleTimeoutMs: number,
+    abortUpstream: () => void,
+    onStreamError: (error: UpstreamError) => void,
+    onCancelled: () => void,
+) => {
+    let cancelled = false;
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (firstChunk.done) {
+                controller.close();
+            } else {
+                controller.enqueue(firstChunk.value);
+            }
+        },
+        async pull(controller) {
+            try {
+                const { value, done } = await withTimeout(reader.read(), idleTimeoutMs, 'UPSTREAM_IDLE_TIMEOUT', abortUpstream);
+                if (done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (err) {
+                // クライアントが切断して上流を中断した場合は上流の障害として数えない (閉じたストリームにも書かない)
+                if (cancelled) {
+                    onCancelled();
+                    return;
+                }
+                const error = err instanceof UpstreamError
+                    ? err
+                    : new UpstreamError('UPSTREAM_STREAM_INTERRUPTED', 'The answer stream from RAG API was interrupted.');
+                onStreamError(error);
+                controller.enqueue(encodeErrorEvent(error.code, error.message));
+                controller.close();
+            }
+        },
+        cancel(reason) {
+            // クライアントが切断した場合は上流への接続も閉じる
+            cancelled = true;
+            abortUpstream();
+            reader.cancel(reason).catch(() => {});
+        },
+    });
+};
+
+/**
+ * RAG API にリクエストを送り、最初のバイトが届くまで失敗を再試行する。
+ * 4xx など再試行しても意味のないエラーは response.ok = false のまま返す。
+ * 再試行しきれなかった場合やサーキットが open の場合、クライアントが切断した場合は UpstreamError を投げる。
+ */
+export const fetchUpstream = async (
+    url: string,
+    init: RequestInit,
+    options: UpstreamOptions,
+    circuitBreaker: CircuitBreaker,
+    signal?: AbortSignal, // クライアントの切断
+    fetchImpl: typeof fetch = fetch, // 開発・テストではモックに差し替える
+    log: Logger = logger, // リクエストID 付きのロガー
+): Promise<UpstreamResult> => {
+    let lastError: UpstreamError | null = null;
+
+    for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+        // 再試行の待ち時間の間に切断された場合
+        if (signal?.aborted) throw clientClosedError();
+        if (!circuitBreaker.canRequest()) {
+            throw new UpstreamError('CIRCUIT_OPEN', 'RAG API is temporarily unavailable.');
+        }
+
+        const controller = new AbortController();
+        const abortUpstream = () => controller.abort();
+        signal?.addEventListener('abort', abortUpstream, { once: true });
+
+        try {
+            const response = await withTimeout(
+                fetchImpl(url, { ...init, signal: controller.signal }),
+                options.connectTimeoutMs,
+                'UPSTREAM_TIMEOUT',
+                abortUpstream,
+            );
+
+            if (!response.ok) {
+                if (response.status < 500 && response.status !== 429) {
+                    // リクエスト内容の問題なので上流の障害としては数えない
+                    circuitBreaker.recordSuccess();
+                    return { response, body: null };
+                }
+                const errorText = await response.text().catch(() => '');
+                throw new UpstreamError('UPSTREAM_ERROR', `RAG API responded with ${response.status}. ${errorText}`, response.status);
+            }
+            if (!response.body) {
+                throw new UpstreamError('UPSTREAM_ERROR', 'RAG API returned an empty body.');
+            }
+
+            const reader = response.body.getReader();
+            const firstChunk = await withTimeout(reader.read(), options.connectTimeoutMs, 'UPSTREAM_TIMEOUT', abortUpstream);
+            circuitBreaker.recordSuccess();
+
+            const body = createResilientStream(
+                reader,
+                firstChunk,
+                options.idleTimeoutMs,
+                abortUpstream,
+                (error) => {
+                    log.error('upstream.stream_failed', { code: error.code, error: error.message });
+                    circuitBreaker.recordFailure();
+                },
+                // 最初のバイトが届く前の切断と同じく、上流の成否は記録せずに試行枠だけを返す
+                () => circuitBreaker.release(),
+            );
+            return { response, body };
+        } catch (err) {
+            signal?.removeEventListener('abort', abortUpstream);
+            if (signal?.aborted) {
+                // クライアントが切断したので再試行しない。上流の成否は分からないため記録せず、
+                // half-open の試行枠だけを返す (返さないとサーキットが open のままになる)
+                circuitBreaker.release();
+                throw clientClosedError();
+            }
+
+            lastError = toUpstreamError(err);
+            circuitBreaker.recordFailure();
+            log.warn('upstream.attempt_failed', {
+                attempt: attempt + 1,
+                maxAttempts: options.maxRetries + 1,
+                code: lastError.code,
+                upstreamStatus: lastError.status,
+                error: lastError.message,
+            });
+
+            if (attempt < options.maxRetries) {
+                // 指数バックオフ + ジッター
+                await sleep(options.retryBackoffMs * 2 ** attempt + Math.random() * options.retryBackoffMs);
+            }
+        }
+    }
+
+    throw lastError ?? new UpstreamError('UPSTREAM_UNAVAILABLE', 'Failed to connect to RAG API.');
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { upstreamAdapters } from '@/lib/upstreamAdapters';
+
+const encoder = new TextEncoder();
+
+// チャンク (文字列またはバイト列) を順に流すボディ
+const bodyOf = (...chunks: (string | Uint8Array)[]) =>
+    new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+            controller.close();
+        },
+    });
+
+const readAll = (body: ReadableStream<Uint8Array>) => new Response(body).text();
+
+describe('fastapi', () => {
+    it('正規化済みの SSE はそのまま通す (マルチバイト文字がチャンクの境界で分かれても)', async () => {
+        const sse = 'data: こんにちは\n\nevent: sources\ndata: [{"title":"学生便覧"}]\n\ndata: [DONE]\n\n';
+        const bytes = encoder.encode(sse);
+        const output = await readAll(upstreamAdapters.fastapi.normalize(bodyOf(bytes.slice(0, 8), bytes.slice(8))));
+        expect(output).toBe(sse);
+    });
+
+    it('</chank> と <end> の形式を正規化した SSE にする', async () => {
+        const output = await readAll(upstreamAdapters.fastapi.normalize(bodyOf('data: 前半</chank>data: 後半</chank>', '<end>\n')));
+        expect(output).toBe('data: 前半\n\ndata: 後半\n\ndata: [DONE]\n\n');
+    });
+});
+
+describe('openai', () => {
+    const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+    it('チャンクをまたいだ delta を回答の断片にし、[DONE] で終わる', async () => {
+        const stream = `${delta('学費は')}${delta('')}${delta('50万円です')}data: [DONE]\n\n`;
+        const output = await readAll(upstreamAdapters.openai.normalize(bodyOf(stream.slice(0, 30), stream.slice(30, 75), stream.slice(75))));
+        expect(output).toBe('data: 学費は\n\ndata: 50万円です\n\ndata: [DONE]\n\n');
+    });
+
+    it('error のペイロードを error イベントにする', async () => {
+        const output = await readAll(upstreamAdapters.openai.normalize(bodyOf('data: {"error":{"message":"model not found"}}\n\n')));
+        expect(output).toBe('event: error\ndata: {"code":"UPSTREAM_ERROR","message":"model not found"}\n\n');
+    });
+
+    it('system メッセージに回答の言語を入れ、履歴と質問を続ける', () => {
+        const body = upstreamAdapters.openai.createBody(
+            { query: '門限は?', history: [{ role: 'user', content: '寮について' }], locale: 'en' },
+            { id: 'local', name: '', description: '', urlEnv: 'X', model: 'm', systemPrompt: 'You are a senpai.' },
+        );
+        expect(body).toEqual({
+            model: 'm',
+            stream: true,
+            messages: [
+                { role: 'system', content: 'You are a senpai.\n\nAnswer in English.' },
+                { role: 'user', content: '寮について' },
+                { role: 'user', content: '門限は?' },
+            ],
+        });
+    });
+});
+
+describe('json', () => {
+    it('answer と sources を回答・sources・[DONE] のイベントにする', async () => {
+        const json = JSON.stringify({ answer: '50万円です', sources: [{ title: '学費', url: 'https://example.ac.jp/fees' }] });
+        const output = await readAll(upstreamAdapters.json.normalize(bodyOf(json.slice(0, 10), json.slice(10))));
+        expect(output).toBe(
+            'data: 50万円です\n\n' +
+            'event: sources\ndata: [{"title":"学費","url":"https://example.ac.jp/fees"}]\n\n' +
+            'data: [DONE]\n\n',
+        );
+    });
+
+    it('JSON として読めない回答は error イベントにする', async () => {
+        const output = await readAll(upstreamAdapters.json.normalize(bodyOf('<html>Bad Gateway</html>')));
+        expect(output).toBe('event: error\ndata: {"code":"UPSTREAM_ERROR","message":"RAG API returned an invalid JSON answer."}\n\n');
+    });
+});
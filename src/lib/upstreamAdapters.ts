@@ -0,0 +1,167 @@
+// lib/upstreamAdapters.ts
+// RAG API の方式ごとのアダプター
+// バックエンドごとに backends.json の protocol で選び、リクエストボディを組み立て、レスポンスを
+// クライアントが受け取る形式 (正規化した SSE) に変換する。
+//
+// - fastapi: これまでの RAG API (data: ...</chank>, event: sources, <end> / [DONE])
+// - openai: OpenAI 互換の /v1/chat/completions のストリーム (ローカルのモデルサーバーなど)
+// - json: ストリーミングしない JSON の回答 ({ "answer": "...", "sources": [...], "suggestions": [...] })
+//
+// 正規化した SSE: 回答の断片は data: のみのイベント、sources / suggestions / error は event: 付きの
+// イベント (data は JSON)、最後に data: [DONE]。どのイベントも空行で終わる。
+import { createSSEParser, formatSSEEvent, parseSources, parseSuggestions, type SSEEvent } from '@/lib/sse';
+import type { Locale } from '@/lib/i18n';
+import type { BackendEntry } from '@/lib/backends';
+import type { OpenAIChatRequestBody, RagRequestBody } from '@/types/rag';
+
+export type UpstreamProtocol = 'fastapi' | 'openai' | 'json';
+
+export interface UpstreamAdapter {
+    accept: string; // Accept ヘッダー
+    /** RAG API に送るリクエストボディ */
+    createBody: (request: RagRequestBody, entry: BackendEntry) => unknown;
+    /** 上流のレスポンスボディを正規化した SSE に変換する */
+    normalize: (body: ReadableStream<Uint8Array>) => ReadableStream<Uint8Array>;
+}
+
+const encoder = new TextEncoder();
+
+/** 正規化した SSE のイベントを 1 つ組み立てる */
+export const formatNormalizedEvent = (event: SSEEvent) => {
+    switch (event.type) {
+        case 'message':
+            return formatSSEEvent({ data: event.data });
+        case 'error':
+            return formatSSEEvent({ event: 'error', data: JSON.stringify({ code: event.code, message: event.data }) });
+        case 'sources':
+            return formatSSEEvent({ event: 'sources', data: JSON.stringify(event.sources) });
+        case 'suggestions':
+            return formatSSEEvent({ event: 'suggestions', data: JSON.stringify(event.suggestions) });
+        case 'done':
+            return formatSSEEvent({ data: '[DONE]' });
+    }
+};
+
+// 上流の SSE をイベントごとに解析し、map で変換したイベントを正規化した SSE として送る
+const transformSSE = (body: ReadableStream<Uint8Array>, map: (event: SSEEvent) => SSEEvent[]) => {
+    const decoder = new TextDecoder();
+    const parser = createSSEParser();
+    const emit = (events: SSEEvent[], controller: TransformStreamDefaultController<Uint8Array>) => {
+        const text = events.flatMap(map).map(formatNormalizedEvent).join('');
+        if (text) controller.enqueue(encoder.encode(text));
+    };
+
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            emit(parser.feed(decoder.decode(chunk, { stream: true })), controller);
+        },
+        flush(controller) {
+            emit([...parser.feed(decoder.decode()), ...parser.flush()], controller);
+        },
+    }));
+};
+
+const fastapiAdapter: UpstreamAdapter = {
+    accept: 'text/event-stream',
+    createBody: (request) => request,
+    normalize: (body) => transformSSE(body, (event) => [event]),
+};
+
+// system メッセージで指定する回答の言語
+const languageNames: Record<Locale, string> = { ja: 'Japanese', en: 'English' };
+
+// OpenAI 互換のストリームの 1 イベント ({ choices: [{ delta: { content } }] } または { error: { message } })
+const fromOpenAIEvent = (event: SSEEvent): SSEEvent[] => {
+    if (event.type !== 'message') return [event];
+    let parsed: { choices?: { delta?: { content?: unknown } }[]; error?: { message?: unknown } };
+    try {
+        parsed = JSON.parse(event.data);
+    } catch {
+        return [];
+    }
+    if (parsed.error) {
+        const message = typeof parsed.error.message === 'string' ? parsed.error.message : 'The model server returned an error.';
+        return [{ type: 'error', code: 'UPSTREAM_ERROR', data: message }];
+    }
+    const content = parsed.choices?.[0]?.delta?.content;
+    return typeof content === 'string' && content !== '' ? [{ type: 'message', data: content }] : [];
+};
+
+const openaiAdapter: UpstreamAdapter = {
+    accept: 'text/event-stream',
+    createBody: ({ query, history = [], locale }, entry): OpenAIChatRequestBody => {
+        const system = [entry.systemPrompt, locale && `Answer in ${languageNames[locale]}.`].filter(Boolean).join('\n\n');
+        return {
+            model: entry.model,
+            stream: true,
+            messages: [
+                ...(system ? [{ role: 'system' as const, content: system }] : []),
+                ...history,
+                { role: 'user', content: query },
+            ],
+        };
+    },
+    normalize: (body) => transformSSE(body, fromOpenAIEvent),
+};
+
+// JSON の回答全体を受け取ってから、正規化した SSE のイベントとして送る
+const fromJsonAnswer = (text: string): SSEEvent[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return [{ type: 'error', code: 'UPSTREAM_ERROR', data: 'RAG API returned an invalid JSON answer.' }];
+    }
+    const answer = (parsed as { answer?: unknown } | null)?.answer;
+    if (typeof answer !== 'string') {
+        return [{ type: 'error', code: 'UPSTREAM_ERROR', data: 'RAG API returned a JSON answer without "answer".' }];
+    }
+
+    const events: SSEEvent[] = [{ type: 'message', data: answer }];
+    const sources = parseSources(text);
+    if (sources?.length) events.push({ type: 'sources', sources });
+    const suggestions = parseSuggestions(text);
+    if (suggestions?.length) events.push({ type: 'suggestions', suggestions });
+    events.push({ type: 'done' });
+    return events;
+};
+
+const jsonAdapter: UpstreamAdapter = {
+    accept: 'application/json',
+    createBody: (request) => request,
+    normalize: (body) => {
+        const decoder = new TextDecoder();
+        let text = '';
+        return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk) {
+                text += decoder.decode(chunk, { stream: true });
+            },
+            flush(controller) {
+                text += decoder.decode();
+                controller.enqueue(encoder.encode(fromJsonAnswer(text).map(formatNormalizedEvent).join('')));
+            },
+        }));
+    },
+};
+
+export const upstreamAdapters: Record<UpstreamProtocol, UpstreamAdapter> = {
+    fastapi: fastapiAdapter,
+    openai: openaiAdapter,
+    json: jsonAdapter,
+};
+
+/**
+ * 成功したレスポンスのボディをアダプターで正規化する fetch
+ * fetchUpstream のタイムアウトとリトライは変換後のストリームに対して働く
+ * (json は回答全体が届いた時点で最初のバイトになる)。
+ */
+export const withUpstreamAdapter = (adapter: UpstreamAdapter, fetchImpl: typeof fetch): typeof fetch =>
+    async (input, init) => {
+        const response = await fetchImpl(input, init);
+        if (!response.ok || !response.body) return response;
+
+        const headers = new Headers(response.headers);
+        headers.delete('Content-Length');
+        headers.set('Content-Type', 'text/event-stream; charset=utf-8');
+        return new Response(adapter.normalize(response.body), { status: response.status, statusText: response.statusText, headers });
+    };
@@ -0,0 +1,72 @@
+// lib/variants.ts
+// 再生成・編集で増えていく回答の候補 (AnswerVariant) の操作
+import type { AnswerVariant, Message } from '@/types/chat';
+
+// 表示中の回答を候補として切り出す
+const toVariant = (message: Message, query: string): AnswerVariant => ({
+    query,
+    content: message.content,
+    timestamp: message.timestamp,
+    appliedRules: message.appliedRules,
+    sources: message.sources,
+    suggestions: message.suggestions,
+    isError: message.isError,
+    error: message.error,
+    isStopped: message.isStopped,
+    feedback: message.feedback,
+});
+
+// 表示中の回答を variants に書き戻す
+const syncVariants = (message: Message, query: string): AnswerVariant[] => {
+    const variants = message.variants ? [...message.variants] : [];
+    variants[message.variantIndex ?? 0] = toVariant(message, query);
+    return variants;
+};
+
+/**
+ * 現在の回答を候補として残し、空の新しい回答に切り替える。
+ * previousQuery は現在の回答を生成した質問、query はこれから送る質問。
+ */
+export const startNewVariant = (message: Message, previousQuery: string, query: string): Message => {
+    const variants = syncVariants(message, previousQuery);
+    const timestamp = new Date();
+    variants.push({ query, content: '', timestamp });
+    return {
+        ...message,
+        content: '',
+        timestamp,
+        appliedRules: undefined,
+        sources: undefined,
+        suggestions: undefined,
+        isError: undefined,
+        error: undefined,
+        isStopped: undefined,
+        feedback: undefined,
+        variants,
+        variantIndex: variants.length - 1,
+    };
+};
+
+/** 表示する回答の候補を切り替える。切り替え先の候補を生成した質問も返す */
+export const selectVariant = (message: Message, currentQuery: string, index: number): { message: Message; query: string } | null => {
+    if (!message.variants || index < 0 || index >= message.variants.length) return null;
+    const variants = syncVariants(message, currentQuery);
+    const variant = variants[index];
+    return {
+        message: {
+            ...message,
+            content: variant.content,
+            timestamp: variant.timestamp,
+            appliedRules: variant.appliedRules,
+            sources: variant.sources,
+            suggestions: variant.suggestions,
+            isError: variant.isError,
+            error: variant.error,
+            isStopped: variant.isStopped,
+            feedback: variant.feedback,
+            variants,
+            variantIndex: index,
+        },
+        query: variant.query,
+    };
+};
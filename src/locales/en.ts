@@ -0,0 +1,158 @@
+// locales/en.ts
+// English message catalog (must have the same keys as ja.ts)
+import type { Messages } from '@/locales/ja';
+
+const en: Messages = {
+    common: {
+        send: 'Send',
+        sending: 'Sending...',
+        cancel: 'Cancel',
+        close: 'Close',
+    },
+    chat: {
+        welcomeTitle: 'Welcome to SenpaiChat',
+        welcomeBody: 'Ask anything to get started. Your AI senpai is here to help.',
+        placeholder: 'Ask SenpaiChat a question... (Enter to send)',
+        placeholderUnavailable: 'Questions are not available right now',
+        send: 'Send',
+        stop: 'Stop generating',
+        scrollToBottom: 'Scroll to bottom',
+        openSidebar: 'Open conversation list',
+        closeSidebar: 'Close conversation list',
+        logoAlt: 'Kamiyama Marugoto KOSEN logo',
+        errorPrefix: 'Error:',
+        rateLimited: 'Too many requests right now. Please wait a moment and try again.',
+        cooldown: 'Lots of questions right now. You can send again in {seconds}s.',
+        showSampleQuestions: 'Show example questions',
+        hideSampleQuestions: 'Hide example questions',
+        sampleQuestionCategories: 'Example question categories',
+    },
+    message: {
+        errorPrefix: 'Something went wrong:',
+        retry: 'Retry',
+        stopped: 'Answer generation was stopped',
+        previousVariant: 'Previous answer',
+        nextVariant: 'Next answer',
+        regenerate: 'Regenerate answer',
+        editQuestion: 'Edit question',
+        suggestions: 'Suggested follow-up questions',
+        copyCode: 'Copy code',
+        copied: 'Copied',
+    },
+    feedback: {
+        good: 'Good answer',
+        bad: 'Bad answer',
+        thanks: 'Thanks for your feedback',
+        promptGood: 'What did you like?',
+        promptBad: 'What was wrong?',
+        comment: 'Comment',
+        commentPlaceholder: 'Comment (optional)',
+        submitFailed: 'Could not send your feedback. Please try again later.',
+        reasons: {
+            helpful: 'Helpful',
+            incorrect: 'Incorrect',
+            outdated: 'Outdated',
+            incomplete: 'Incomplete',
+            irrelevant: 'Off-topic',
+            other: 'Other',
+        },
+    },
+    sidebar: {
+        newConversation: 'New conversation',
+        search: 'Search conversations',
+        empty: 'No conversations yet',
+        noMatches: 'No matching conversations',
+        titleInput: 'Conversation name',
+        saveTitle: 'Save name',
+        rename: 'Rename',
+        delete: 'Delete',
+        confirmDelete: 'Delete "{title}"?',
+    },
+    serviceStatus: {
+        readOnly: 'New questions are not being accepted right now. You can still read your past conversations.',
+        maintenance: 'SenpaiChat is under maintenance. Please check back soon.',
+        closed: 'SenpaiChat has been discontinued. Thank you for using it.',
+        scheduled: 'Scheduled maintenance: {schedule}',
+        until: 'until {end}',
+    },
+    suggestions: {
+        fromSource: 'Tell me more about "{title}"',
+    },
+    inputGuard: {
+        tooLong: 'Your question is too long. Shorten it to {max} characters or fewer and send it again.',
+        containsPii: 'Your question contains personal information such as a phone number or student ID. Remove it and send it again.',
+        blockedTopic: 'Sorry, SenpaiChat cannot answer questions on this topic.',
+        promptInjection: 'Your question seems to try to change the assistant\'s instructions. Please ask only your question.',
+    },
+    locale: {
+        label: 'Language',
+    },
+    backend: {
+        label: 'Assistant',
+        select: 'Choose an assistant',
+    },
+    export: {
+        menu: 'Export / import',
+        markdown: 'Save as Markdown',
+        json: 'Save as JSON',
+        print: 'Print / save as PDF',
+        import: 'Import from JSON',
+        importFailed: 'Could not import the conversation: {error}',
+        exportedAt: 'Exported',
+        question: 'Question',
+        answer: 'Answer',
+        sources: 'Sources',
+        failedAnswer: 'The answer could not be generated: {message}',
+        backToChat: 'Back to chat',
+        notFound: 'The conversation was not found.',
+        loading: 'Loading...',
+    },
+    share: {
+        button: 'Share',
+        title: 'Share conversation',
+        description: 'Share this conversation as a read-only link. Email addresses, phone numbers and student IDs are masked before saving, and messages sent after sharing are not included.',
+        expiry: 'Expires',
+        expiryNone: 'Never',
+        expiryDays: 'In {days} days',
+        create: 'Create link',
+        creating: 'Creating...',
+        copy: 'Copy link',
+        copied: 'Copied',
+        expiresAt: 'Valid until {date}',
+        revoke: 'Stop sharing',
+        revoking: 'Stopping...',
+        createFailed: 'Could not create a share link. Please try again later.',
+        revokeFailed: 'Could not stop sharing.',
+        sharedAt: 'Conversation shared on {date} (read-only)',
+        unavailable: 'This share link does not exist, has been revoked or has expired.',
+        startChat: 'Ask SenpaiChat',
+    },
+    embed: {
+        forbidden: 'SenpaiChat cannot be embedded on this site.',
+    },
+    admin: {
+        title: 'SenpaiChat admin',
+        description: 'Use the most-asked, unanswered and negatively rated questions to decide which school documents to add to the RAG index.',
+        period: 'Period',
+        lastDays: 'Last {days} days',
+        queries: 'Questions',
+        errorRate: 'Error rate',
+        rejected: 'Rejected questions',
+        cacheHits: 'Answered from cache',
+        ttfb: 'Time to first byte',
+        duration: 'Time to full answer',
+        daily: 'Daily usage',
+        date: 'Date',
+        errors: 'Errors',
+        topQuestions: 'Most-asked questions',
+        unanswered: 'Unanswered questions',
+        negative: 'Questions with negatively rated answers',
+        count: 'Count',
+        reasons: 'Reasons',
+        similar: 'Similar questions',
+        empty: 'No records in this period.',
+        analyticsDisabled: 'Usage is not being recorded because ANALYTICS_INGEST_TOKEN is not set.',
+    },
+};
+
+export default en;
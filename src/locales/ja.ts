@@ -0,0 +1,159 @@
+// locales/ja.ts
+// 日本語のメッセージカタログ ({name} は formatMessage で置き換える)
+
+const ja = {
+    common: {
+        send: '送信',
+        sending: '送信中...',
+        cancel: 'キャンセル',
+        close: '閉じる',
+    },
+    chat: {
+        welcomeTitle: 'SenpaiChatへようこそ',
+        welcomeBody: '質問や会話を始めましょう。AI先輩があなたをサポートします。',
+        placeholder: 'SenpaiChatに質問を入力... (Enterで送信)',
+        placeholderUnavailable: '現在は質問できません',
+        send: '送信',
+        stop: '回答を停止',
+        scrollToBottom: '最下部にスクロール',
+        openSidebar: '会話一覧を開く',
+        closeSidebar: '会話一覧を閉じる',
+        logoAlt: '高専ロゴ',
+        errorPrefix: 'エラー:',
+        rateLimited: 'リクエストが集中しています。少し待ってからもう一度お試しください。',
+        cooldown: '質問が集中しています。あと{seconds}秒で送信できます。',
+        showSampleQuestions: '質問例を表示',
+        hideSampleQuestions: '質問例を閉じる',
+        sampleQuestionCategories: '質問例のカテゴリ',
+    },
+    message: {
+        errorPrefix: 'エラーが発生しました:',
+        retry: '再試行',
+        stopped: '回答の生成を停止しました',
+        previousVariant: '前の回答',
+        nextVariant: '次の回答',
+        regenerate: '回答を再生成',
+        editQuestion: '質問を編集',
+        suggestions: '次の質問の候補',
+        copyCode: 'コードをコピー',
+        copied: 'コピーしました',
+    },
+    feedback: {
+        good: '良い回答',
+        bad: '良くない回答',
+        thanks: 'フィードバックありがとうございます',
+        promptGood: '良かった点を教えてください',
+        promptBad: '問題点を教えてください',
+        comment: 'コメント',
+        commentPlaceholder: 'コメント (任意)',
+        submitFailed: '送信できませんでした。時間をおいてもう一度お試しください。',
+        reasons: {
+            helpful: '役に立った',
+            incorrect: '内容が間違っている',
+            outdated: '情報が古い',
+            incomplete: '説明が足りない',
+            irrelevant: '質問と関係がない',
+            other: 'その他',
+        },
+    },
+    sidebar: {
+        newConversation: '新しい会話',
+        search: '会話を検索',
+        empty: 'まだ会話はありません',
+        noMatches: '一致する会話はありません',
+        titleInput: '会話の名前',
+        saveTitle: '名前を保存',
+        rename: '名前を変更',
+        delete: '削除',
+        confirmDelete: '「{title}」を削除しますか？',
+    },
+    serviceStatus: {
+        readOnly: '現在、新しい質問は受け付けていません。過去の会話は引き続きご覧いただけます。',
+        maintenance: 'ただいまメンテナンス中です。しばらくお待ちください。',
+        closed: 'SenpaiChatはサービス終了しました。長らくのご愛用ありがとうございました。',
+        scheduled: 'メンテナンス予定: {schedule}',
+        until: '{end}まで',
+    },
+    suggestions: {
+        fromSource: '「{title}」について詳しく教えて',
+    },
+    inputGuard: {
+        tooLong: '質問が長すぎます。{max}文字以内にしてからもう一度送信してください。',
+        containsPii: '電話番号や学籍番号などの個人情報が含まれているため送信できません。取り除いてからもう一度送信してください。',
+        blockedTopic: 'この内容の質問にはお答えできません。',
+        promptInjection: 'AIへの指示を変えようとする内容が含まれているため送信できません。質問だけを入力してください。',
+    },
+    locale: {
+        label: '言語',
+    },
+    backend: {
+        label: 'アシスタント',
+        select: 'アシスタントを選ぶ',
+    },
+    export: {
+        menu: '書き出し・読み込み',
+        markdown: 'Markdown で保存',
+        json: 'JSON で保存',
+        print: '印刷 / PDF で保存',
+        import: 'JSON から読み込む',
+        importFailed: '会話を読み込めませんでした: {error}',
+        exportedAt: '書き出し日時',
+        question: '質問',
+        answer: '回答',
+        sources: '出典',
+        failedAnswer: '回答の生成に失敗しました: {message}',
+        backToChat: 'チャットに戻る',
+        notFound: '会話が見つかりませんでした。',
+        loading: '読み込み中...',
+    },
+    share: {
+        button: '共有',
+        title: '会話を共有',
+        description: 'いまの会話を読み取り専用のリンクとして共有します。メールアドレス・電話番号・学籍番号は伏せて保存され、共有した後のメッセージは含まれません。',
+        expiry: '有効期限',
+        expiryNone: '無期限',
+        expiryDays: '{days}日間',
+        create: 'リンクを作成',
+        creating: '作成中...',
+        copy: 'リンクをコピー',
+        copied: 'コピーしました',
+        expiresAt: '{date}まで有効',
+        revoke: '共有を停止',
+        revoking: '停止中...',
+        createFailed: '共有リンクを作成できませんでした。時間をおいてもう一度お試しください。',
+        revokeFailed: '共有を停止できませんでした。',
+        sharedAt: '{date}に共有された会話です (読み取り専用)',
+        unavailable: 'この共有リンクは存在しないか、停止または期限切れになっています。',
+        startChat: 'SenpaiChat で質問する',
+    },
+    embed: {
+        forbidden: 'このサイトには SenpaiChat を埋め込めません。',
+    },
+    admin: {
+        title: 'SenpaiChat 管理画面',
+        description: 'よく聞かれる質問、回答できなかった質問、低評価の質問から、RAG に追加する学校の資料を検討できます。',
+        period: '集計期間',
+        lastDays: '直近{days}日',
+        queries: '質問数',
+        errorRate: 'エラー率',
+        rejected: '受け付けなかった質問',
+        cacheHits: 'キャッシュから回答',
+        ttfb: '回答開始までの時間',
+        duration: '回答完了までの時間',
+        daily: '日ごとの利用状況',
+        date: '日付',
+        errors: 'エラー',
+        topQuestions: 'よく聞かれる質問',
+        unanswered: '回答できなかった質問',
+        negative: '低評価の回答の質問',
+        count: '件数',
+        reasons: '理由',
+        similar: '似た質問',
+        empty: 'この期間の記録はありません。',
+        analyticsDisabled: 'ANALYTICS_INGEST_TOKEN が設定されていないため、利用状況は記録されていません。',
+    },
+};
+
+export type Messages = typeof ja;
+
+export default ja;
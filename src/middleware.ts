@@ -0,0 +1,45 @@
+// middleware.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getAdminCredentials, verifyBasicAuth } from '@/lib/adminAuth';
+import { getEmbedAllowedOrigins, isEmbedOriginAllowed } from '@/lib/embed';
+
+// 管理画面は ADMIN_USERNAME / ADMIN_PASSWORD の Basic 認証で守る (ADMIN_PASSWORD が未設定なら 404)
+const handleAdmin = async (request: NextRequest) => {
+    const credentials = getAdminCredentials();
+    if (!credentials) {
+        return new NextResponse('Not Found', { status: 404 });
+    }
+    if (!(await verifyBasicAuth(request.headers.get('authorization'), credentials))) {
+        return new NextResponse('Authentication required.', {
+            status: 401,
+            headers: { 'WWW-Authenticate': 'Basic realm="SenpaiChat admin", charset="UTF-8"' },
+        });
+    }
+    return NextResponse.next();
+};
+
+// 埋め込み用の画面は EMBED_ALLOWED_ORIGINS のサイトからしか iframe で開けないようにする (未設定なら 404)
+// ?origin= (embed.js が付ける埋め込み先のオリジン) がない、または許可されていなければ 403
+// ?origin= は埋め込み先の申告でしかないため、フレームに入れられるかは CSP (frame-ancestors) で制限する
+const handleEmbed = (request: NextRequest) => {
+    const allowedOrigins = getEmbedAllowedOrigins();
+    if (!allowedOrigins) {
+        return new NextResponse('Not Found', { status: 404 });
+    }
+    const origin = request.nextUrl.searchParams.get('origin');
+    if (!isEmbedOriginAllowed(origin, allowedOrigins)) {
+        return new NextResponse('This site is not allowed to embed SenpaiChat.', { status: 403 });
+    }
+    const response = NextResponse.next();
+    response.headers.set('Content-Security-Policy', `frame-ancestors ${allowedOrigins.join(' ')}`);
+    return response;
+};
+
+export async function middleware(request: NextRequest) {
+    if (request.nextUrl.pathname.startsWith('/embed')) return handleEmbed(request);
+    return handleAdmin(request);
+}
+
+export const config = {
+    matcher: ['/admin', '/admin/:path*', '/embed'],
+};
@@ -0,0 +1,21 @@
+// types/analytics.ts
+
+/**
+ * /api/generate の 1 リクエストの記録 (管理画面の集計に使う)
+ * 質問は入力の検査を通って転送したものだけを、個人情報を伏せてから残す。
+ */
+export interface AnalyticsEvent {
+    id: string;
+    createdAt: string; // ISO 8601
+    requestId: string;
+    status: number; // クライアントに返した HTTP ステータス
+    code?: string; // エラーコード
+    backend?: string;
+    locale?: string;
+    cache?: 'HIT' | 'MISS' | 'BYPASS';
+    query?: string;
+    ttfbMs: number;
+    durationMs?: number; // ストリームの場合のみ
+    tokens?: number;
+    outcome?: 'completed' | 'error' | 'cancelled';
+}
@@ -0,0 +1,14 @@
+// types/backend.ts
+
+/** /api/backends が返すアシスタント (RAG バックエンド) の情報 (URL や認証情報は含まない) */
+export interface BackendSummary {
+    id: string;
+    name: string;
+    description: string;
+    avatar?: string; // アイコン画像のパス
+}
+
+export interface BackendsResponse {
+    default: string; // backend を指定しない場合に使うアシスタント
+    backends: BackendSummary[];
+}
@@ -0,0 +1,84 @@
+// types/chat.ts
+import type { AppliedRule } from '@/lib/answerPolicy';
+import type { FeedbackRating, FeedbackReason } from '@/types/feedback';
+
+export type MessageRole = 'user' | 'assistant';
+
+/** 回答の根拠となった学校の資料 (RAG API の sources イベント) */
+export interface Source {
+    title: string;
+    url?: string;
+    snippet?: string;
+}
+
+export interface Message {
+    id: string;
+    role: MessageRole;
+    content: string;
+    timestamp?: Date;
+    appliedRules?: AppliedRule[]; // 後処理ポリシーで発火したルール
+    sources?: Source[]; // 回答の出典
+    suggestions?: string[]; // 次の質問の候補
+    isError?: boolean; // 回答の生成に失敗したメッセージ (会話履歴には含めない)
+    error?: MessageError; // 失敗の内容 (受信済みの回答は content に残す)
+    isStopped?: boolean; // ユーザーが回答の生成を停止した
+    variants?: AnswerVariant[]; // 再生成・編集で作られた回答の候補 (アシスタントのみ)
+    variantIndex?: number; // variants のうち表示中の候補
+    feedback?: MessageFeedback; // 送信済みのフィードバック (同じ回答に二重に送らないため)
+}
+
+/**
+ * 回答の候補
+ * 表示中の候補の内容は Message 側が正となり、候補を切り替えるときに variants へ書き戻す。
+ */
+export interface AnswerVariant {
+    query: string; // この回答を生成した質問
+    content: string;
+    timestamp?: Date;
+    appliedRules?: AppliedRule[];
+    sources?: Source[];
+    suggestions?: string[];
+    isError?: boolean;
+    error?: MessageError;
+    isStopped?: boolean;
+    feedback?: MessageFeedback;
+}
+
+/** 回答の生成に失敗したときのエラー (code は API や SSE の error イベントが返す機械可読なコード) */
+export interface MessageError {
+    code?: string;
+    message: string;
+}
+
+/** ユーザーが回答に付けた評価 */
+export interface MessageFeedback {
+    rating: FeedbackRating;
+    reason?: FeedbackReason;
+    submittedAt: Date;
+}
+
+/** RAG API に会話の文脈として渡す過去のメッセージ */
+export interface HistoryMessage {
+    role: MessageRole;
+    content: string;
+}
+
+/** 会話の共有リンク (共有を停止するためのトークンを作成したブラウザに保存する) */
+export interface ConversationShare {
+    id: string;
+    url: string;
+    revokeToken: string;
+    createdAt: Date;
+    expiresAt?: Date;
+}
+
+/** IndexedDB に保存する会話 */
+export interface Conversation {
+    id: string;
+    title: string;
+    messages: Message[];
+    backendId?: string; // 会話で使うアシスタント (未設定の会話は既定のアシスタント)
+    share?: ConversationShare; // 作成した共有リンク
+    createdAt: Date;
+    updatedAt: Date;
+}
@@ -0,0 +1,59 @@
+// types/conversationExport.ts
+import type { FeedbackRating, FeedbackReason } from '@/types/feedback';
+import type { MessageError, MessageRole, Source } from '@/types/chat';
+
+/** 書き出した JSON の形式名 (読み込み時に SenpaiChat の書き出しかどうかを判定する) */
+export const CONVERSATION_EXPORT_FORMAT = 'senpaichat.conversation';
+
+/** 形式を変えたら上げる (古い版は読み込み時に変換する) */
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+/** 書き出したメッセージ (日時は ISO 8601 の文字列) */
+export interface ExportedMessage {
+    id: string;
+    role: MessageRole;
+    content: string;
+    timestamp?: string;
+    sources?: Source[];
+    suggestions?: string[];
+    isError?: boolean;
+    error?: MessageError;
+    isStopped?: boolean;
+    feedback?: { rating: FeedbackRating; reason?: FeedbackReason; submittedAt: string };
+}
+
+/**
+ * 会話の JSON 書き出し (表示中の回答のみ。再生成した回答の候補は含めない)
+ *
+ * 例:
+ * {
+ *   "format": "senpaichat.conversation",
+ *   "version": 1,
+ *   "exportedAt": "2025-04-01T10:05:00.000Z",
+ *   "conversation": {
+ *     "id": "conversation-1743501600000",
+ *     "title": "寮の門限は何時？",
+ *     "backendId": "senpai",
+ *     "createdAt": "2025-04-01T10:00:00.000Z",
+ *     "updatedAt": "2025-04-01T10:01:00.000Z",
+ *     "messages": [
+ *       { "id": "user-1743501600000", "role": "user", "content": "寮の門限は何時？", "timestamp": "2025-04-01T10:00:00.000Z" },
+ *       { "id": "assistant-1743501600000", "role": "assistant", "content": "1年生の門限は22時です。", "timestamp": "...",
+ *         "sources": [{ "title": "寮生活のしおり", "url": "https://example.ac.jp/dorm.pdf" }] }
+ *     ]
+ *   }
+ * }
+ */
+export interface ConversationExport {
+    format: typeof CONVERSATION_EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    conversation: {
+        id: string;
+        title: string;
+        backendId?: string;
+        createdAt: string;
+        updatedAt: string;
+        messages: ExportedMessage[];
+    };
+}
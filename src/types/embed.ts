@@ -0,0 +1,30 @@
+// types/embed.ts
+import type { Locale } from '@/lib/i18n';
+
+export type EmbedTheme = 'light' | 'dark';
+
+/** /embed のクエリパラメーター (embed.js では script タグの data 属性) で受け取る設定 */
+export interface EmbedConfig {
+    backend?: string; // 最初に選ぶアシスタント (指定した場合は切り替えを表示しない)
+    question?: string; // 入力欄に入れておく質問
+    theme?: EmbedTheme;
+    locale?: Locale;
+}
+
+// 埋め込み先のページに postMessage で送るメッセージの目印
+export const EMBED_MESSAGE_SOURCE = 'senpaichat';
+
+/**
+ * 埋め込み先のページに送るイベント ({ source: 'senpaichat', type, ... } として送る)
+ * 質問や回答の本文は送らない。
+ */
+export type EmbedEvent =
+    | { type: 'ready' } // チャットを表示した
+    | { type: 'question' } // 質問を送信した
+    | { type: 'answer'; status: 'completed' | 'stopped' | 'rejected' | 'error'; code?: string } // 回答が終わった
+    | { type: 'close' }; // 閉じるボタンが押された
+
+/** ChatInterface を埋め込み用に表示するときの設定 */
+export interface ChatEmbedOptions extends Omit<EmbedConfig, 'locale'> {
+    onEvent: (event: EmbedEvent) => void;
+}
@@ -0,0 +1,30 @@
+// types/feedback.ts
+import type { Source } from '@/types/chat';
+
+export type FeedbackRating = 'up' | 'down';
+
+// 評価の理由 (コンテンツチームが資料を直すときの分類)
+export const FEEDBACK_REASONS = ['incorrect', 'outdated', 'incomplete', 'irrelevant', 'helpful', 'other'] as const;
+export type FeedbackReason = (typeof FEEDBACK_REASONS)[number];
+
+// コメントの最大文字数 (入力欄と /api/feedback の検証で共通)
+export const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
+
+/** クライアントから /api/feedback に送る内容 */
+export interface FeedbackPayload {
+    rating: FeedbackRating;
+    reason?: FeedbackReason;
+    comment?: string;
+    query: string; // 評価した回答に対する質問
+    answer: string;
+    messageId: string; // 評価した回答のメッセージID
+    queryMessageId?: string;
+    conversationId?: string;
+    sources?: Source[];
+}
+
+/** 保存されたフィードバック */
+export interface FeedbackRecord extends FeedbackPayload {
+    id: string;
+    createdAt: string; // ISO 8601
+}
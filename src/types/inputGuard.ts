@@ -0,0 +1,13 @@
+// types/inputGuard.ts
+
+// 質問を RAG API に転送しなかった理由 (/api/generate が 422 の code として返す)
+export const INPUT_GUARD_CODES = [
+    'INPUT_TOO_LONG', // 最大文字数を超えている
+    'INPUT_CONTAINS_PII', // 送信を止める個人情報 (電話番号・学籍番号など) が含まれている
+    'INPUT_BLOCKED_TOPIC', // 答えない話題
+    'INPUT_PROMPT_INJECTION', // AI への指示を書き換えようとしている
+] as const;
+export type InputGuardCode = (typeof INPUT_GUARD_CODES)[number];
+
+export const isInputGuardCode = (value: unknown): value is InputGuardCode =>
+    INPUT_GUARD_CODES.includes(value as InputGuardCode);
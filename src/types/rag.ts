@@ -0,0 +1,36 @@
+// types/rag.ts
+import type { Locale } from '@/lib/i18n';
+import type { HistoryMessage } from '@/types/chat';
+
+/**
+ * /api/generate から RAG API (FastAPI) に送るリクエストボディ
+ *
+ * - query: 最新の質問。query だけを受け付けるバックエンドとの互換のため常に送る
+ * - history: query より前の会話 (古い順)。RAG_API_SEND_HISTORY=false の場合や履歴が空の場合は省略する
+ * - locale: 回答に使う言語 (ja / en)。RAG_API_SEND_LOCALE=false の場合は省略する
+ *
+ * 例:
+ * {
+ *   "query": "2年生の場合は？",
+ *   "history": [
+ *     { "role": "user", "content": "寮の門限は何時？" },
+ *     { "role": "assistant", "content": "1年生の門限は22時です。" }
+ *   ],
+ *   "locale": "ja"
+ * }
+ */
+export interface RagRequestBody {
+    query: string;
+    history?: HistoryMessage[];
+    locale?: Locale;
+}
+
+/**
+ * protocol: "openai" のバックエンドに送るリクエストボディ (/v1/chat/completions)
+ * history と query を messages に並べ、locale は system メッセージで回答の言語として伝える。
+ */
+export interface OpenAIChatRequestBody {
+    model?: string;
+    stream: true;
+    messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
+}
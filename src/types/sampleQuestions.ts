@@ -0,0 +1,18 @@
+// types/sampleQuestions.ts
+
+export interface SampleQuestion {
+    id: string;
+    text: string;
+}
+
+/** /api/sample-questions が返すカテゴリごとの質問例 */
+export interface SampleQuestionCategory {
+    id: string;
+    label: string;
+    questions: SampleQuestion[];
+}
+
+export interface SampleQuestionsResponse {
+    audience: string;
+    categories: SampleQuestionCategory[];
+}
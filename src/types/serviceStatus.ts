@@ -0,0 +1,31 @@
+// types/serviceStatus.ts
+
+/**
+ * サービスの状態
+ * open: 通常 / read-only: 過去の会話は見られるが質問できない /
+ * maintenance: メンテナンス中 / closed: サービス終了
+ */
+export type ServiceState = 'open' | 'read-only' | 'maintenance' | 'closed';
+
+/** メンテナンスの予定 (ISO 8601)。start を省略すると即時、end を省略すると終了時刻未定 */
+export interface MaintenanceWindow {
+    start?: string;
+    end?: string;
+}
+
+/** 運用者が設定するサービスの状態 (SERVICE_STATUS_URL の JSON、または環境変数) */
+export interface ServiceStatusConfig {
+    state: ServiceState;
+    message?: string; // 利用者に表示するメッセージ (省略時は状態ごとの既定の文言)
+    maintenance?: MaintenanceWindow;
+}
+
+/**
+ * 現在時刻で解決したサービスの状態 (/api/status が返す)
+ * state が open のまま maintenance がある場合は予定されたメンテナンスの告知
+ */
+export interface ServiceStatus {
+    state: ServiceState;
+    message?: string;
+    maintenance?: MaintenanceWindow;
+}
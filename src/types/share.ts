@@ -0,0 +1,39 @@
+// types/share.ts
+import type { MessageRole, Source } from '@/types/chat';
+
+/** 共有する会話のメッセージ (共有した時点の内容。日時は ISO 8601) */
+export interface SharedMessage {
+    id: string;
+    role: MessageRole;
+    content: string;
+    timestamp?: string;
+    sources?: Source[];
+}
+
+/** クライアントから /api/share に送る内容 */
+export interface SharePayload {
+    title: string;
+    messages: SharedMessage[];
+    backendId?: string;
+    expiresInDays?: number; // 省略時は無期限 (SHARE_MAX_EXPIRY_DAYS が設定されていればその日数)
+}
+
+/** 保存された共有 (個人情報は伏せてある) */
+export interface ShareRecord {
+    id: string;
+    title: string;
+    messages: SharedMessage[];
+    backendId?: string;
+    createdAt: string;
+    expiresAt?: string;
+    revokedAt?: string;
+    revokeTokenHash: string; // 共有を停止するためのトークンの SHA-256 (トークン自体は作成した人だけが持つ)
+}
+
+/** /api/share のレスポンス */
+export interface ShareResponse {
+    id: string;
+    url: string; // /share/<id>
+    expiresAt?: string;
+    revokeToken: string;
+}